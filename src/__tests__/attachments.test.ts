@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { localizeAttachmentRefs, resolveLocalAttachments, syncAttachments } from "../attachments.js";
+import { AttachmentV2, ConfluenceClient } from "../api.js";
+
+describe("resolveLocalAttachments", () => {
+  let dir: string;
+  let mdFile: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cft-attach-"));
+    fs.mkdirSync(path.join(dir, "diagrams"));
+    fs.writeFileSync(path.join(dir, "diagrams", "arch.png"), "png");
+    fs.writeFileSync(path.join(dir, "spec.pdf"), "pdf");
+    fs.writeFileSync(path.join(dir, "other.md"), "# Other");
+    mdFile = path.join(dir, "page.md");
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rewrites relative image and file paths to attachment refs", () => {
+    const body = ["![Architecture](diagrams/arch.png)", "", "See [the spec](spec.pdf) and [other](other.md)."].join("\n");
+    const { body: out, attachments } = resolveLocalAttachments(body, mdFile);
+    expect(out).toContain("![Architecture](#arch.png)");
+    expect(out).toContain("[the spec](#attachment:spec.pdf)");
+    expect(out).toContain("[other](other.md)");
+    expect(attachments.map((a) => a.filename).sort()).toEqual(["arch.png", "spec.pdf"]);
+  });
+
+  it("attaches existing files behind attachment refs and ignores remote urls and code", () => {
+    const body = [
+      "[spec](#attachment:spec.pdf)",
+      "![remote](https://example.com/x.png)",
+      "![missing](#missing.png)",
+      "```",
+      "![in code](diagrams/arch.png)",
+      "```",
+    ].join("\n");
+    const { body: out, attachments } = resolveLocalAttachments(body, mdFile);
+    expect(out).toBe(body);
+    expect(attachments).toEqual([{ filename: "spec.pdf", filePath: path.join(dir, "spec.pdf") }]);
+  });
+
+  it("does not attach dotfiles or files outside the markdown file's folder", () => {
+    const outside = path.join(path.dirname(dir), `${path.basename(dir)}-secret.txt`);
+    fs.writeFileSync(outside, "secret");
+    fs.writeFileSync(path.join(dir, ".env"), "TOKEN=x");
+    const body = [`[secret](../${path.basename(outside)})`, "[env](.env)", "![env](#.env)"].join("\n");
+    const { body: out, attachments } = resolveLocalAttachments(body, mdFile);
+    fs.rmSync(outside);
+    expect(out).toBe(body);
+    expect(attachments).toEqual([]);
+  });
+
+  it("localizes downloaded attachment refs and maps them back on upload", () => {
+    fs.mkdirSync(path.join(dir, "page.assets"));
+    fs.writeFileSync(path.join(dir, "page.assets", "my diagram.png"), "png");
+    const remote = ["![Flow](#my diagram.png)", "", "[Spec](#attachment:missing.pdf)"].join("\n");
+    const local = localizeAttachmentRefs(remote, mdFile);
+    expect(local).toContain("![Flow](page.assets/my%20diagram.png)");
+    expect(local).toContain("[Spec](#attachment:missing.pdf)");
+    const { body, attachments } = resolveLocalAttachments(local, mdFile);
+    expect(body).toContain("![Flow](#my diagram.png)");
+    expect(attachments).toEqual([{ filename: "my diagram.png", filePath: path.join(dir, "page.assets", "my diagram.png") }]);
+  });
+});
+
+describe("syncAttachments", () => {
+  it("compares attachments without a recorded hash by content when the size matches", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cft-sync-attach-"));
+    const filePath = path.join(dir, "a.txt");
+    fs.writeFileSync(filePath, "new");
+    const uploads: string[] = [];
+    const client = {
+      listAttachments: async (): Promise<AttachmentV2[]> => [{ id: "att1", title: "a.txt", fileSize: 3 } as AttachmentV2],
+      downloadAttachment: async () => Buffer.from("old"),
+      uploadAttachment: async (_pageId: string, filename: string) => { uploads.push(filename); },
+    } as unknown as ConfluenceClient;
+    expect(await syncAttachments(client, "42", [{ filename: "a.txt", filePath }])).toBe(1);
+    expect(uploads).toEqual(["a.txt"]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
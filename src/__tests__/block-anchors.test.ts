@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { applyBlockAnchors, blockAnchors, blockAnchorsPath, loadBlockAnchors, saveBlockAnchors } from "../block-anchors.js";
+import { buildOutgoingStorage } from "../commands/upload.js";
+import { markdownToStorageHtml, renderMarkdownBody } from "../storage-dom.js";
+
+describe("block anchors", () => {
+  const storage = [
+    `<h1>Title</h1>`,
+    `<p>Intro with <ac:inline-comment-marker ac:ref="c1">a comment</ac:inline-comment-marker>&nbsp;here</p>`,
+    `<p/>`,
+    `<p>Second <span style="color: red;">red</span></p>`,
+    `<ac:structured-macro ac:name="expand"><ac:rich-text-body><p>a</p><p>b</p></ac:rich-text-body></ac:structured-macro>`,
+    `<ul><li>one</li></ul>`,
+  ].join("");
+  const anchors = blockAnchors(storage);
+  const convert = (md: string) => markdownToStorageHtml(md);
+
+  it("keeps every node of an unchanged body", () => {
+    const result = applyBlockAnchors(storage, renderMarkdownBody(storage), anchors, convert);
+    expect(result).toEqual({ html: storage, kept: 5, converted: 0, removed: 0 });
+  });
+
+  it("converts only edited and inserted blocks and deletes removed ones", () => {
+    const body = renderMarkdownBody(storage)
+      .replace("# Title", "# New title")
+      .replace(/Second.*\n/, "")
+      .concat("\nAppended\n");
+    const result = applyBlockAnchors(storage, body, anchors, convert)!;
+    expect(result.html).toBe([
+      `<h1>New title</h1>`,
+      `<p>Intro with <ac:inline-comment-marker ac:ref="c1">a comment</ac:inline-comment-marker>&nbsp;here</p>`,
+      `<ac:structured-macro ac:name="expand"><ac:rich-text-body><p>a</p><p>b</p></ac:rich-text-body></ac:structured-macro>`,
+      `<ul><li>one</li></ul>`,
+      `<p>Appended</p>`,
+    ].join(""));
+    expect(result).toMatchObject({ kept: 3, converted: 2, removed: 2 });
+  });
+
+  it("rebuilds blocks that were changed in Confluence since the download", () => {
+    const remote = storage.replace("<li>one</li>", "<li>one</li><li>two</li>");
+    const result = applyBlockAnchors(remote, renderMarkdownBody(storage), anchors, convert)!;
+    expect(result.html.endsWith(`<ul><li>one</li></ul>`)).toBe(true);
+    expect(result).toMatchObject({ kept: 4, converted: 1, removed: 1 });
+  });
+
+  it("is used by upload for bodies without node tags", () => {
+    const outgoing = buildOutgoingStorage(storage, renderMarkdownBody(storage).replace("one", "uno"), {}, anchors);
+    expect(outgoing.mode).toBe("full");
+    expect(outgoing.anchored).toEqual({ kept: 4, converted: 1, removed: 1 });
+    expect(outgoing.html).toContain(`<ac:inline-comment-marker ac:ref="c1">`);
+  });
+
+  describe("sidecar", () => {
+    let dir: string;
+    let mdFile: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "cft-anchors-"));
+      mdFile = path.join(dir, "page.md");
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("saves, loads and removes the fingerprints", () => {
+      expect(saveBlockAnchors(mdFile, storage)).toBe(blockAnchorsPath(mdFile));
+      expect(saveBlockAnchors(mdFile, storage)).toBeUndefined();
+      expect(loadBlockAnchors(mdFile)).toEqual(anchors);
+      // Pages whose nodes all carry ids are mapped by node tags instead
+      expect(saveBlockAnchors(mdFile, `<p data-node-id="n1">Tagged</p>`)).toBe(blockAnchorsPath(mdFile));
+      expect(fs.existsSync(blockAnchorsPath(mdFile))).toBe(false);
+      expect(loadBlockAnchors(mdFile)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CommentType, CommentV2, ConfluenceClient } from "../api.js";
+import { commentsPathFor, downloadComments, fetchPageComments, postCommentActions } from "../comments.js";
+
+const comment = (id: string, authorId: string, createdAt: string, body: string, extra: Partial<CommentV2> = {}): CommentV2 => ({
+  id,
+  version: { number: 1, authorId, createdAt },
+  body: { storage: { value: body } },
+  ...extra,
+});
+
+/** Client stub serving a fixed set of comments. */
+function stubClient(top: Record<CommentType, CommentV2[]>, replies: Record<string, CommentV2[]>): ConfluenceClient {
+  return {
+    getPageComments: async (_pageId: string, type: CommentType) => top[type],
+    getCommentReplies: async (id: string) => replies[id] ?? [],
+    getUserDisplayName: async (accountId: string) => (accountId === "u1" ? "Jane Doe" : undefined),
+  } as unknown as ConfluenceClient;
+}
+
+describe("page comments", () => {
+  let dir: string;
+  let mdFile: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cft-comments-"));
+    mdFile = path.join(dir, "page.md");
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const client = stubClient(
+    {
+      inline: [comment("10", "u1", "2026-10-01T09:00:00.000Z", "<p>Please <strong>clarify</strong>.</p>", {
+        resolutionStatus: "open",
+        properties: { inlineMarkerRef: "ref-1", inlineOriginalSelection: "the text" },
+      })],
+      footer: [comment("20", "u2", "2026-10-02T09:00:00.000Z", "<p>Looks good</p>")],
+    },
+    {
+      "10": [comment("12", "u1", "2026-10-03T09:00:00.000Z", "<p>Later</p>"), comment("11", "u2", "2026-10-02T09:00:00.000Z", "<p>Done</p>")],
+      "11": [comment("13", "u2", "2026-10-04T09:00:00.000Z", "<p>Nested</p>")],
+    }
+  );
+
+  it("keys inline threads by marker ref and lists replies by date", async () => {
+    const comments = await fetchPageComments(client, "123");
+    expect(Object.keys(comments.inline)).toEqual(["ref-1"]);
+    const thread = comments.inline["ref-1"]!;
+    expect(thread).toMatchObject({ id: "10", status: "open", selection: "the text" });
+    expect(thread.comments.map((c) => c.id)).toEqual(["10", "11", "12", "13"]);
+    expect(thread.comments[0]).toEqual({ id: "10", author: "Jane Doe", authorId: "u1", created: "2026-10-01T09:00:00.000Z", body: "Please **clarify**." });
+    // Unresolvable authors fall back to their account id
+    expect(comments.footer["20"]!.comments[0]!.author).toBe("u2");
+  });
+
+  it("writes the comment file only when it changes and removes it without comments", async () => {
+    expect(await downloadComments(client, "123", mdFile)).toBe(commentsPathFor(mdFile));
+    expect(commentsPathFor(mdFile)).toBe(path.join(dir, "page.comments.json"));
+    expect(JSON.parse(fs.readFileSync(commentsPathFor(mdFile), "utf8")).pageId).toBe("123");
+    expect(await downloadComments(client, "123", mdFile)).toBeUndefined();
+    expect(await downloadComments(stubClient({ inline: [], footer: [] }, {}), "123", mdFile)).toBe(commentsPathFor(mdFile));
+    expect(fs.existsSync(commentsPathFor(mdFile))).toBe(false);
+  });
+
+  it("posts replies and resolutions and keeps failed ones pending", async () => {
+    const posted: string[] = [];
+    const acting = Object.assign(Object.create(client), {
+      replyToComment: async (id: string, type: CommentType, html: string) => { posted.push(`reply ${type} ${id} ${html}`); return comment("99", "u1", "", html); },
+      resolveInlineComment: async (id: string) => { throw new Error(`resolve ${id} refused`); },
+    }) as ConfluenceClient;
+    await downloadComments(client, "123", mdFile);
+    const file = commentsPathFor(mdFile);
+    const data = JSON.parse(fs.readFileSync(file, "utf8"));
+    data.inline["ref-1"].reply = "Fixed in **v2**";
+    data.inline["ref-1"].resolve = true;
+    fs.writeFileSync(file, JSON.stringify(data));
+
+    // A new download keeps what was not posted yet
+    await downloadComments(client, "123", mdFile);
+    expect(JSON.parse(fs.readFileSync(file, "utf8")).inline["ref-1"]).toMatchObject({ reply: "Fixed in **v2**", resolve: true });
+
+    expect(await postCommentActions(acting, "123", mdFile, { dryRun: true })).toBeUndefined();
+    expect(posted).toEqual([]);
+
+    expect(await postCommentActions(acting, "123", mdFile)).toBe(file);
+    expect(posted).toEqual(["reply inline 10 <p>Fixed in <strong>v2</strong></p>"]);
+    const after = JSON.parse(fs.readFileSync(file, "utf8")).inline["ref-1"];
+    expect(after.reply).toBeUndefined();
+    expect(after.resolve).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import os from "os";
+import { mergeText } from "../git.js";
+
+describe("mergeText", () => {
+  it("merges non-overlapping local and remote edits cleanly", async () => {
+    const base = ["# Title", "", "First paragraph.", "", "Second paragraph.", ""].join("\n");
+    const local = base.replace("First paragraph.", "First paragraph, edited locally.");
+    const remote = base.replace("Second paragraph.", "Second paragraph, edited in Confluence.");
+    const { merged, conflicts } = await mergeText(os.tmpdir(), { local, base, remote });
+    expect(conflicts).toBe(0);
+    expect(merged).toContain("First paragraph, edited locally.");
+    expect(merged).toContain("Second paragraph, edited in Confluence.");
+  });
+
+  it("reports conflicts with labelled markers when both sides edit the same line", async () => {
+    const base = "Status: draft\n";
+    const { merged, conflicts } = await mergeText(os.tmpdir(), {
+      local: "Status: review\n",
+      base,
+      remote: "Status: final\n",
+    });
+    expect(conflicts).toBe(1);
+    expect(merged).toContain("<<<<<<< local");
+    expect(merged).toContain("Status: review");
+    expect(merged).toContain("Status: final");
+    expect(merged).toContain(">>>>>>> confluence");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadMacroStore, macroStorePath, saveMacroStore } from "../macro-store.js";
+import { extractOpaqueMacros } from "../storage-dom.js";
+
+describe("macro store", () => {
+  let dir: string;
+  let mdFile: string;
+  const drawio = `<ac:structured-macro ac:name="drawio"><ac:parameter ac:name="diagramName">Flow</ac:parameter></ac:structured-macro>`;
+  const children = `<ac:structured-macro ac:name="children" />`;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cft-macros-"));
+    mdFile = path.join(dir, "page.md");
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps referenced macros in the sidecar and restores them without the live page", () => {
+    const ids = extractOpaqueMacros(drawio + children);
+    const [drawioId, childrenId] = Object.keys(ids);
+    const body = `<!-- macro:drawio#${drawioId} diagramName=Flow -->\n`;
+    expect(saveMacroStore(mdFile, drawio + children, body)).toBe(macroStorePath(mdFile));
+    expect(saveMacroStore(mdFile, drawio + children, body)).toBeUndefined();
+    const stored = loadMacroStore(mdFile);
+    expect(stored[drawioId!]).toBe(drawio);
+    expect(stored[childrenId!]).toBeUndefined();
+    expect(saveMacroStore(mdFile, "", "No macros\n")).toBe(macroStorePath(mdFile));
+    expect(fs.existsSync(macroStorePath(mdFile))).toBe(false);
+  });
+});
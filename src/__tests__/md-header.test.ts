@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { emitHeader, parseHeader } from "../md-header.js";
+import { hasRemoteChanged } from "../commands/upload.js";
+import { storageHash } from "../storage-dom.js";
+
+describe("header version and hash", () => {
+  it("round-trips through emitHeader and parseHeader", () => {
+    const meta = { readonly: true, spaceId: "S", pageId: "42", parentId: "7", title: "Plan", status: "green:Done", labels: ["howto", "team-a"], version: 12, hash: "0123abcd" };
+    const { meta: parsed, body } = parseHeader(emitHeader(meta) + "Body\n");
+    expect(parsed).toEqual(meta);
+    expect(body).toBe("Body\n");
+  });
+
+  it("tells an empty labels line apart from a missing one", () => {
+    expect(parseHeader("<!--\npageId: 42\nlabels:\n-->\n").meta.labels).toEqual([]);
+    expect(parseHeader("<!--\npageId: 42\n-->\n").meta.labels).toBeUndefined();
+    expect(parseHeader("<!--\nlabels: HowTo, team-a  draft,howto\n-->\n").meta.labels).toEqual(["howto", "team-a", "draft"]);
+    expect(emitHeader({ pageId: "42", labels: [] })).toContain("\nlabels:\n");
+  });
+
+  it("ignores a non-numeric version", () => {
+    const { meta } = parseHeader("<!--\npageId: 42\nversion: seven\nhash: abc\n-->\n\nBody\n");
+    expect(meta.version).toBeUndefined();
+    expect(meta.hash).toBe("abc");
+  });
+});
+
+describe("hasRemoteChanged", () => {
+  const storage = "<p>Hello</p>";
+
+  it("does not block files without a recorded version", () => {
+    expect(hasRemoteChanged({ pageId: "42" }, 9, storage)).toBe(false);
+  });
+
+  it("does not block when the remote version is not newer", () => {
+    expect(hasRemoteChanged({ pageId: "42", version: 9, hash: "other" }, 9, storage)).toBe(false);
+  });
+
+  it("ignores a version bump that left the storage unchanged", () => {
+    expect(hasRemoteChanged({ pageId: "42", version: 3, hash: storageHash(storage) }, 4, storage)).toBe(false);
+  });
+
+  it("reports a version bump with different content", () => {
+    expect(hasRemoteChanged({ pageId: "42", version: 3, hash: storageHash("<p>Old</p>") }, 4, storage)).toBe(true);
+  });
+
+  it("reports a version bump when no hash was recorded", () => {
+    expect(hasRemoteChanged({ pageId: "42", version: 3 }, 4, storage)).toBe(true);
+  });
+
+  it("treats a non-numeric version like no recorded version", () => {
+    const { meta } = parseHeader("<!--\npageId: 42\nversion: v3\n-->\n");
+    expect(hasRemoteChanged(meta, 4, storage)).toBe(false);
+  });
+});
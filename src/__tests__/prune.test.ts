@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { findDeletedPages } from "../commands/prune.js";
+
+describe("findDeletedPages", () => {
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd, stdio: "pipe" });
+
+  it("finds pages of deleted files that no other file tracks", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "prune-"));
+    const page = (id: string, extra = "") => `<!--\n${extra}pageId: ${id}\n-->\n# Page ${id}\n`;
+    fs.writeFileSync(path.join(dir, "gone.md"), page("1"));
+    fs.writeFileSync(path.join(dir, "moved.md"), page("2"));
+    fs.writeFileSync(path.join(dir, "mirror.md"), page("3", "READONLY\n"));
+    fs.writeFileSync(path.join(dir, "kept.md"), page("4"));
+    git(dir, "init", "-q");
+    git(dir, "add", "-A");
+    git(dir, "commit", "-q", "-m", "init");
+
+    git(dir, "rm", "-q", "gone.md");
+    fs.renameSync(path.join(dir, "moved.md"), path.join(dir, "elsewhere.md"));
+    fs.rmSync(path.join(dir, "mirror.md"));
+
+    const deleted = await findDeletedPages(dir);
+    expect(deleted.map((d) => [path.basename(d.file), d.meta.pageId])).toEqual([["gone.md", "1"]]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { diffStorage, formatStorageDiff } from "../storage-diff.js";
+import { replaceNodesById } from "../storage-dom.js";
+
+describe("diffStorage", () => {
+  it("reports changed nodeIds for partial replacements", () => {
+    const before = `<p data-node-id="n1">Intro</p><p data-node-id="n2">Body</p>`;
+    const { html } = replaceNodesById(before, { n2: "<p>Body, edited</p>" });
+    const diff = diffStorage(before, html);
+    expect(diff.changed).toEqual(["n2"]);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  it("reports added and removed blocks without node ids", () => {
+    const before = `<h1>Title</h1><p>Keep me</p><p>Drop me</p>`;
+    const after = `<h1>Title</h1><p>Keep me</p><p>New paragraph</p>`;
+    const diff = diffStorage(before, after);
+    expect(diff.removed).toEqual(['<p> "Drop me"']);
+    expect(diff.added).toEqual(['<p> "New paragraph"']);
+  });
+
+  it("reports macros and inline comments that would be lost", () => {
+    const before = [
+      `<ac:structured-macro ac:name="jira"><ac:parameter ac:name="key">ABC-1</ac:parameter></ac:structured-macro>`,
+      `<p><ac:inline-comment-marker ac:ref="c1">commented</ac:inline-comment-marker> text</p>`,
+    ].join("");
+    const after = `<p>commented text</p>`;
+    const lines = formatStorageDiff(diffStorage(before, after));
+    expect(lines).toContain("! would lose 1x jira macro");
+    expect(lines).toContain("! would lose 1x inline comment");
+  });
+
+  it("reports no changes for identical storage", () => {
+    const html = `<p>Same</p>`;
+    expect(formatStorageDiff(diffStorage(html, html))).toEqual(["no changes"]);
+  });
+});
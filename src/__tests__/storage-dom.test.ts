@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { storageToMarkdownBlocks, markdownToStorageHtml, detectUnsupportedFeatures } from "../storage-dom.js";
+import { storageToMarkdownBlocks, markdownToStorageHtml, detectUnsupportedFeatures, extractOpaqueMacros, extractEmoticons } from "../storage-dom.js";
 
 describe("storageToMarkdownBlocks", () => {
   it("renders TOC macro as placeholder comment", () => {
@@ -31,9 +31,10 @@ describe("storageToMarkdownBlocks", () => {
     const out = storageToMarkdownBlocks(html).map(b => b.markdown.trim()).join("\n");
     expect(out).toContain("| Title 1 | Title 2 | Title 3 |");
     expect(out).toContain("| --- | --- | --- |");
-    expect(out).toContain("<!-- table:bg:red -->");
-    expect(out).toContain("<!-- table:bg:green -->");
-    expect(out).toContain("<!-- table:bg:blue -->");
+    // Legacy styling comments become cell tags
+    expect(out).toContain("| red <!-- cell:bg:red --> |");
+    expect(out).toContain("| green <!-- cell:bg:green --> |");
+    expect(out).toContain("| blue <!-- cell:bg:blue --> |");
   });
 
   it("converts Confluence code macro to fenced code block with language", () => {
@@ -97,7 +98,7 @@ describe("storageToMarkdownBlocks", () => {
     const html = markdownToStorageHtml(md);
     expect(html).toContain('<ac:structured-macro ac:name="code">');
     expect(html).toContain('<ac:plain-text-body>');
-    expect(html).toContain('end of cdata ]&gt; should be escaped');
+    expect(html).toContain('end of cdata ]]&gt; should be escaped');
   });
 
   it("converts Confluence code macro to fenced code block", () => {
@@ -108,8 +109,8 @@ describe("storageToMarkdownBlocks", () => {
       </ac:structured-macro>
     `;
     const out = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n");
-    // Expect fenced block
-    expect(out).toContain("```\nline1\nline2\n```");
+    // Expect fenced block with the macro's language
+    expect(out).toContain("```json\nline1\nline2\n```");
   });
 
   it("parses indented code blocks back to code macro", () => {
@@ -121,7 +122,7 @@ describe("storageToMarkdownBlocks", () => {
     ].join("\n");
     const html = markdownToStorageHtml(md);
     expect(html).toContain('<ac:structured-macro ac:name="code">');
-    expect(html).toContain('<ac:plain-text-body><![CDATA[const a = 1\nconsole.log(a);]]></ac:plain-text-body>');
+    expect(html).toContain('<ac:plain-text-body><![CDATA[const a = 1;\nconsole.log(a);]]></ac:plain-text-body>');
   });
 
   it("converts unordered lists and inline formatting", () => {
@@ -144,7 +145,7 @@ describe("storageToMarkdownBlocks", () => {
     ].join("\n");
     const html = markdownToStorageHtml(md);
     expect(html).toContain('<table>');
-    expect(html).toContain('<td>line1<br/>line2</td>');
+    expect(html).toContain('<td><p>line1<br/>line2</p></td>');
   });
 
   it("converts links, mention tags, and blockquotes on upload", () => {
@@ -158,7 +159,7 @@ describe("storageToMarkdownBlocks", () => {
     expect(html).toContain('<ac:structured-macro ac:name="info">');
     expect(html).toContain('<strong>Bold</strong>');
     expect(html).toContain('<a href="https://example.com">link</a>');
-    expect(html).toContain('<ac:atlassian-user ac:account-id="acc-123"/>' );
+    expect(html).toContain('<ac:link><ri:user ri:account-id="acc-123"/></ac:link>');
   });
 
   it("does not escape underscores in download outside code", () => {
@@ -207,7 +208,7 @@ describe("storageToMarkdownBlocks", () => {
     const md = storageToMarkdownBlocks(html).map(b => b.markdown.trim()).join("\n");
     expect(md).toContain("<!-- mention:abc-123 ");
     const back = markdownToStorageHtml(md + "\n");
-    expect(back).toContain('<ac:atlassian-user ac:account-id="abc-123"/>' );
+    expect(back).toContain('<ac:link><ri:user ri:account-id="abc-123"/></ac:link>');
   });
 
   it("converts Confluence image with caption to markdown image + caption and back", () => {
@@ -218,11 +219,9 @@ describe("storageToMarkdownBlocks", () => {
       </ac:image>
     `;
     const md = storageToMarkdownBlocks(html).map(b => b.markdown.trim()).join("\n");
-    expect(md).toContain("![](" );
-    expect(md).toContain("https://example.com/img.png");
-    expect(md).toContain("Figure 1: Example");
+    expect(md).toContain("![Figure 1: Example](https://example.com/img.png)");
     const back = markdownToStorageHtml(md);
-    expect(back).toContain('<ac:image>');
+    expect(back).toContain('<ac:image ');
     expect(back).toContain('<ri:url ri:value="https://example.com/img.png"/>');
     expect(back).toContain('<ac:caption>Figure 1: Example</ac:caption>');
   });
@@ -286,8 +285,8 @@ describe("storageToMarkdownBlocks", () => {
       </ol>
     `;
     const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n");
-    expect(md).toMatch(/\n1\. First/);
-    expect(md).toMatch(/\n2\. Second/);
+    expect(md).toMatch(/^1\.\s+First$/m);
+    expect(md).toMatch(/^2\.\s+Second$/m);
     expect(md).not.toContain("1\\.");
   });
 
@@ -429,8 +428,306 @@ describe("inline comment wrapper round-trip", () => {
   });
 });
 
+describe("list round-trip", () => {
+  const roundTrip = (html: string) =>
+    markdownToStorageHtml(storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n"));
+
+  it("keeps nested and mixed ordered/unordered lists", () => {
+    const html = `<ul><li>One<ul><li>Nested <strong>a</strong></li><li>b<ol><li>x</li><li>y</li></ol></li></ul></li><li>Two</li></ul>`;
+    expect(roundTrip(html)).toBe(html);
+  });
+
+  it("keeps ordered lists with a start number and multi-paragraph items", () => {
+    const html = `<ol start="3"><li>Third</li><li><p>Fourth</p><p>Second para</p></li></ol>`;
+    expect(roundTrip(html)).toBe(html);
+  });
+
+  it("parses hand-written nested lists with two-space indentation", () => {
+    const md = ["- a", "  - b", "    1. c", "- d", "", "1. x", "2. y"].join("\n");
+    expect(markdownToStorageHtml(md)).toBe(
+      "<ul><li>a<ul><li>b<ol><li>c</li></ol></li></ul></li><li>d</li></ul><ol><li>x</li><li>y</li></ol>"
+    );
+  });
+
+  it("keeps loose list items together and ends the list at unindented text", () => {
+    const md = ["- first", "", "  more text", "", "- second", "", "After the list"].join("\n");
+    expect(markdownToStorageHtml(md)).toBe(
+      "<ul><li><p>first</p><p>more text</p></li><li>second</li></ul><p>After the list</p>"
+    );
+  });
+
+  it("keeps paragraphs that start with a number as paragraphs", () => {
+    const html = `<ol><li>a</li><li>b</li></ol><p>2024. Was good</p>`;
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(md).toContain("2024\\. Was good");
+    expect(roundTrip(html)).toBe(html);
+  });
+
+  it("does not continue an ordered list across blank lines when the number does not follow on", () => {
+    expect(markdownToStorageHtml(["1. a", "2. b", "", "2024. Was good"].join("\n"))).toBe(
+      `<ol><li>a</li><li>b</li></ol><ol start="2024"><li>Was good</li></ol>`
+    );
+    expect(markdownToStorageHtml(["1. a", "", "1. b"].join("\n"))).toBe("<ol><li>a</li><li>b</li></ol>");
+  });
+});
+
+describe("task list round-trip", () => {
+  const html = [
+    `<ac:task-list>`,
+    `<ac:task><ac:task-id>12</ac:task-id><ac:task-status>incomplete</ac:task-status><ac:task-body>Write <strong>docs</strong> <ac:link><ri:user ri:account-id="abc"/></ac:link></ac:task-body></ac:task>`,
+    `<ac:task><ac:task-id>13</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>Ship it</ac:task-body></ac:task>`,
+    `</ac:task-list>`,
+  ].join("");
+
+  it("renders tasks as GFM checkboxes with their task id", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n");
+    expect(md).toContain("*   [ ] Write **docs** <!-- mention:abc abc --> <!-- task:12 -->\n");
+    expect(md).toContain("*   [x] Ship it <!-- task:13 -->");
+  });
+
+  it("converts checkboxes back to the same tasks on upload", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n");
+    expect(markdownToStorageHtml(md)).toBe(html);
+  });
+
+  it("creates new tasks without an id and keeps plain items in a separate list", () => {
+    const out = markdownToStorageHtml(["- [ ] new task", "- [x] done", "- plain"].join("\n"));
+    expect(out).toBe(
+      "<ac:task-list><ac:task><ac:task-status>incomplete</ac:task-status><ac:task-body>new task</ac:task-body></ac:task>" +
+      "<ac:task><ac:task-status>complete</ac:task-status><ac:task-body>done</ac:task-body></ac:task></ac:task-list>" +
+      "<ul><li>plain</li></ul>"
+    );
+  });
+
+  it("keeps task ids inside a table cell and rebuilds the cell task list", () => {
+    const tasks =
+      `<ac:task-list><ac:task><ac:task-id>12</ac:task-id><ac:task-status>incomplete</ac:task-status><ac:task-body>Do it</ac:task-body></ac:task>` +
+      `<ac:task><ac:task-id>13</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>Ship it</ac:task-body></ac:task></ac:task-list>`;
+    const table =
+      `<table><tbody><tr><th><p>Item</p></th><th><p>Actions</p></th></tr>` +
+      `<tr><td><p>Review</p></td><td>${tasks}</td></tr></tbody></table>`;
+    const md = storageToMarkdownBlocks(table).map(b => b.markdown).join("\n");
+    expect(md).toContain("| Review | [ ] Do it <!-- task:12 --> [x] Ship it <!-- task:13 --> |");
+    const out = markdownToStorageHtml(md);
+    expect(out).toContain(`<td>${tasks}</td>`);
+    expect(out.match(/<th>/g)).toHaveLength(2);
+  });
+});
+
+describe("inline node round-trip", () => {
+  const status = `<ac:structured-macro ac:name="status"><ac:parameter ac:name="title">Done</ac:parameter><ac:parameter ac:name="colour">green</ac:parameter></ac:structured-macro>`;
+  const smile = `<ac:emoticon ac:name="smile" ac:emoji-shortname=":slight_smile:" ac:emoji-id="1f642" ac:emoji-fallback="🙂"/>`;
+  const html = `<p>Decided <time datetime="2026-10-19"/> ${smile} <ac:emoticon ac:name="tick"/> ${status}</p><p><ac:placeholder>Type the decision</ac:placeholder></p>`;
+
+  it("renders dates, emoticons, statuses and placeholders as markdown tags", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(md).toBe("Decided <!-- date:2026-10-19 --> :slight_smile: :tick: <!-- status:green:Done -->\n\n<!-- placeholder:Type the decision -->");
+  });
+
+  it("re-emits them on upload, emoji with the page's emoticon XML", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md, { emoticons: extractEmoticons(html) })).toBe(html);
+  });
+
+  it("leaves unknown shortcodes, times and code spans as text", () => {
+    expect(markdownToStorageHtml("At 10:30:45 see `:tick:` and :no_such_emoji:")).toBe(
+      "<p>At 10:30:45 see <code>:tick:</code> and :no_such_emoji:</p>"
+    );
+  });
+});
+
+describe("markdown syntax on upload", () => {
+  it("nests emphasis, italics with underscores, strikethrough and hard breaks", () => {
+    expect(markdownToStorageHtml("**bold _nested_** and *em* with ~~gone~~  \nnext [**x**](https://example.com)")).toBe(
+      `<p><strong>bold <em>nested</em></strong> and <em>em</em> with <s>gone</s><br/>next <a href="https://example.com"><strong>x</strong></a></p>`
+    );
+  });
+
+  it("keeps nested block quotes and drops node tags", () => {
+    expect(markdownToStorageHtml("<!-- node:12 -->\n> outer\n>\n> > inner")).toBe(
+      "<blockquote><p>outer</p><blockquote><p>inner</p></blockquote></blockquote>"
+    );
+  });
+
+  it("reads tags at the start of a line as part of the paragraph", () => {
+    expect(markdownToStorageHtml("<!-- mention:abc Abc --> please\n<!-- comment:c1 -->review<!-- commend-end:c1 --> this")).toBe(
+      `<p><ac:link><ri:user ri:account-id="abc"/></ac:link> please <ac:inline-comment-marker ac:ref="c1">review</ac:inline-comment-marker> this</p>`
+    );
+  });
+
+  it("passes balanced HTML blocks through and escapes stray tags", () => {
+    expect(markdownToStorageHtml("<div>\n<b>raw</b><br>\n</div>\n\nUse Array<string> & more")).toBe(
+      "<div>\n<b>raw</b><br/>\n</div><p>Use Array&lt;string&gt; &amp; more</p>"
+    );
+  });
+
+  it("round-trips strikethrough and underscores at word edges", () => {
+    const html = "<p>Call _init_ on CONST_VAR, <s>not</s> <em>this</em></p>";
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md)).toBe(html);
+  });
+});
+
+describe("table spans and styles round-trip", () => {
+  const html = [
+    `<table data-layout="wide" data-table-width="1200"><colgroup><col style="width: 200.0px;"/><col style="width: 300.0px;"/><col style="width: 300.0px;"/></colgroup><tbody>`,
+    `<tr><th rowspan="2"><p>Task</p></th><th colspan="2" data-highlight-colour="#deebff"><p>Team</p></th></tr>`,
+    `<tr><th><p>Dev</p></th><th><p>Ops</p></th></tr>`,
+    `<tr><th><p>Deploy</p></th><td><p>R</p></td><td rowspan="2"><p>A</p></td></tr>`,
+    `<tr><th><p>Test</p></th><td><p>C</p></td></tr>`,
+    `</tbody></table>`,
+  ].join("");
+
+  it("renders spans, colours and header cells as tags and keeps the grid aligned", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(md).toBe([
+      "<!-- table:layout:wide width:1200 cols:200.0,300.0,300.0 -->",
+      "| Task <!-- cell:rowspan:2 --> | Team <!-- cell:colspan:2 bg:#deebff --> | <!-- cell:merged --> |",
+      "| --- | --- | --- |",
+      "| <!-- cell:merged --> | Dev <!-- cell:header --> | Ops <!-- cell:header --> |",
+      "| Deploy <!-- cell:header --> | R | A <!-- cell:rowspan:2 --> |",
+      "| Test <!-- cell:header --> | C | <!-- cell:merged --> |",
+    ].join("\n"));
+  });
+
+  it("rebuilds the merged cells and table attributes on upload", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md)).toBe(html);
+  });
+
+  it("keeps tables without a header row", () => {
+    const plain = `<table><tbody><tr><td><p>a</p></td><td><p>b</p></td></tr></tbody></table>`;
+    const md = storageToMarkdownBlocks(plain).map(b => b.markdown).join("\n\n");
+    expect(md).toBe("<!-- table:noheader -->\n| a | b |\n| --- | --- |");
+    expect(markdownToStorageHtml(md)).toBe(plain);
+  });
+});
+
+describe("expand macro round-trip", () => {
+  const html = [
+    `<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">FAQ (long) &amp; more</ac:parameter><ac:rich-text-body>`,
+    `<p>Answer with <strong>bold</strong></p>`,
+    `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter><ac:plain-text-body><![CDATA[echo "a_b*c"]]></ac:plain-text-body></ac:structured-macro>`,
+    `<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">Inner</ac:parameter><ac:rich-text-body><ul><li>x</li></ul></ac:rich-text-body></ac:structured-macro>`,
+    `</ac:rich-text-body></ac:structured-macro>`,
+  ].join("");
+
+  it("renders expand macros as <details> with the title as summary", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(md.startsWith("<details>\n<summary>FAQ (long) &amp; more</summary>\n\nAnswer with **bold**")).toBe(true);
+    expect(md).toContain("```bash\necho \"a_b*c\"\n```\n\n<details>\n<summary>Inner</summary>");
+    expect(md.endsWith("</details>\n\n</details>")).toBe(true);
+  });
+
+  it("converts <details> back to nested expand macros", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md)).toBe(html);
+  });
+
+  const nested = `<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">More</ac:parameter><ac:rich-text-body><p>Hidden</p></ac:rich-text-body></ac:structured-macro>`;
+
+  it("keeps an expand inside a list item as a placeholder in the item", () => {
+    const list = `<ul><li><p>Item</p>${nested}</li><li>Two</li></ul>`;
+    const md = storageToMarkdownBlocks(list).map(b => b.markdown).join("\n\n");
+    expect(md).not.toContain("<details>");
+    expect(md).toMatch(/^\*   Item\n[\s]*<!-- macro:expand#[0-9a-f]{12} title=More content="Hidden" -->\n\*   Two$/);
+    expect(markdownToStorageHtml(md, { macros: extractOpaqueMacros(list) })).toBe(list);
+  });
+
+  it("keeps an expand inside a table cell as a placeholder in the cell", () => {
+    const table = `<table><tbody><tr><th><p>A</p></th><th><p>B</p></th></tr><tr><td><p>x</p></td><td>${nested}</td></tr></tbody></table>`;
+    const md = storageToMarkdownBlocks(table).map(b => b.markdown).join("\n\n");
+    expect(md).toMatch(/\| x \| <!-- macro:expand#[0-9a-f]{12} title=More content="Hidden" --> \|$/);
+    const out = markdownToStorageHtml(md, { macros: extractOpaqueMacros(table) });
+    expect(out).toContain(`<td>${nested}</td>`);
+    expect(out).not.toContain("<p>|</p>");
+  });
+});
+
+describe("page layout round-trip", () => {
+  const html = [
+    `<ac:layout>`,
+    `<ac:layout-section ac:type="two_equal"><ac:layout-cell><h2>Left</h2><p>Text</p></ac:layout-cell><ac:layout-cell><ul><li>r</li></ul></ac:layout-cell></ac:layout-section>`,
+    `<ac:layout-section ac:type="single"><ac:layout-cell><p>Full</p></ac:layout-cell></ac:layout-section>`,
+    `</ac:layout>`,
+  ].join("");
+
+  it("emits section and cell markers with the cell content as separate blocks", () => {
+    const blocks = storageToMarkdownBlocks(html).map(b => b.markdown);
+    expect(blocks.join("\n\n")).toBe([
+      "<!-- layout-section:two_equal -->", "<!-- layout-cell -->", "## Left", "Text",
+      "<!-- layout-cell -->", "*   r",
+      "<!-- layout-section:single -->", "<!-- layout-cell -->", "Full",
+      "<!-- layout-end -->",
+    ].join("\n\n"));
+  });
+
+  it("rebuilds ac:layout sections and cells on upload", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md)).toBe(html);
+  });
+
+  it("closes open layout elements when the end marker is missing", () => {
+    const md = ["<!-- layout-section:two_left_sidebar -->", "<!-- layout-cell -->", "Side", "<!-- layout-cell -->", "Main"].join("\n");
+    expect(markdownToStorageHtml(md)).toBe(
+      `<ac:layout><ac:layout-section ac:type="two_left_sidebar"><ac:layout-cell><p>Side</p></ac:layout-cell><ac:layout-cell><p>Main</p></ac:layout-cell></ac:layout-section></ac:layout>`
+    );
+  });
+});
+
+describe("opaque macro round-trip", () => {
+  const drawio = `<ac:structured-macro ac:name="drawio" ac:schema-version="1" ac:macro-id="0f1e"><ac:parameter ac:name="diagramName">System overview</ac:parameter><ac:parameter ac:name="revision">3</ac:parameter></ac:structured-macro>`;
+  const anchor = `<ac:structured-macro ac:name="anchor"><ac:parameter ac:name="">top</ac:parameter></ac:structured-macro>`;
+  const html = `<p>Before</p>${drawio}<p>Jump ${anchor} here</p><ac:structured-macro ac:name="children" />`;
+
+  it("shows unknown macros as readable placeholders", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(md).toMatch(/^<!-- macro:drawio#[0-9a-f]{12} diagramName="System overview" revision=3 -->$/m);
+    expect(md).toMatch(/^Jump <!-- macro:anchor#[0-9a-f]{12} default=top --> here$/m);
+    expect(md).toMatch(/^<!-- macro:children#[0-9a-f]{12} -->$/m);
+  });
+
+  it("re-emits the original XML byte for byte on upload", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md, { macros: extractOpaqueMacros(html) })).toBe(html);
+  });
+
+  it("shows the body text of macros with rich text (excerpt, tabs, sections) read-only", () => {
+    const excerpt = `<ac:structured-macro ac:name="excerpt"><ac:rich-text-body><p>Short <strong>summary</strong> -- of "the" page</p><ul><li>a</li></ul></ac:rich-text-body></ac:structured-macro>`;
+    const md = storageToMarkdownBlocks(excerpt).map(b => b.markdown).join("\n\n");
+    expect(md).toMatch(/^<!-- macro:excerpt#[0-9a-f]{12} content="Short summary — of 'the' page a" -->$/);
+    expect(markdownToStorageHtml(md, { macros: extractOpaqueMacros(excerpt) })).toBe(excerpt);
+  });
+
+  it("drops placeholders whose macro is unknown", () => {
+    expect(markdownToStorageHtml("Text <!-- macro:drawio#0123456789ab diagramName=X -->", { macros: {} })).toBe("<p>Text </p>");
+  });
+});
+
+describe("jira macro round-trip", () => {
+  const server = `<ac:parameter ac:name="server">System JIRA</ac:parameter><ac:parameter ac:name="serverId">abc-123</ac:parameter>`;
+  const issue = (params: string) => `<ac:structured-macro ac:name="jira" ac:schema-version="1">${server}${params}</ac:structured-macro>`;
+  const html = [
+    `<p>See ${issue(`<ac:parameter ac:name="key">ABC-1</ac:parameter>`)} and ${issue(`<ac:parameter ac:name="key">ABC-2</ac:parameter><ac:parameter ac:name="showSummary">false</ac:parameter>`)}.</p>`,
+    issue(`<ac:parameter ac:name="columns">key,summary,status</ac:parameter><ac:parameter ac:name="jqlQuery">project = ABC AND labels = "q3" AND created &gt;= -7d</ac:parameter>`),
+  ].join("");
+
+  it("renders issues as jira: links and queries as placeholder blocks", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(md).toBe([
+      "See [ABC-1](jira:ABC-1) and [ABC-2](jira:ABC-2?showSummary=false).",
+      `<!-- jira:query columns="key,summary,status" jql="project = ABC AND labels = \\"q3\\" AND created >= -7d" -->`,
+    ].join("\n\n"));
+  });
+
+  it("rebuilds the macros with the configured server on upload", () => {
+    const md = storageToMarkdownBlocks(html).map(b => b.markdown).join("\n\n");
+    expect(markdownToStorageHtml(md, { jira: { server: "System JIRA", serverId: "abc-123" } })).toBe(html);
+  });
+});
+
 describe("detectUnsupportedFeatures", () => {
-  it("detects multi-column layouts (section/column macros)", () => {
+  it("does not flag section/column macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="section">
         <ac:rich-text-body>
@@ -444,16 +741,16 @@ describe("detectUnsupportedFeatures", () => {
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("multi-column layout");
+    expect(unsupported).not.toContain("multi-column layout");
   });
 
-  it("detects page layouts", () => {
+  it("does not flag page layouts (they round-trip as layout markers)", () => {
     const html = `<ac:layout><ac:layout-section><ac:layout-cell></ac:layout-cell></ac:layout-section></ac:layout>`;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("page layout");
+    expect(unsupported).not.toContain("page layout");
   });
 
-  it("detects expand macros", () => {
+  it("does not flag expand macros (they round-trip as <details>)", () => {
     const html = `
       <ac:structured-macro ac:name="expand">
         <ac:parameter ac:name="title">Click to expand</ac:parameter>
@@ -461,127 +758,119 @@ describe("detectUnsupportedFeatures", () => {
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("expand/collapse sections");
+    expect(unsupported).not.toContain("expand/collapse sections");
   });
 
-  it("detects Jira integration macros", () => {
+  it("does not flag Jira macros (they round-trip as jira: links)", () => {
     const html = `
       <ac:structured-macro ac:name="jira">
         <ac:parameter ac:name="key">PROJ-123</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("Jira issue integration");
+    expect(unsupported).not.toContain("Jira issue integration");
   });
 
-  it("detects merged table cells (colspan)", () => {
+  it("does not flag merged table cells (they round-trip as cell tags)", () => {
     const html = `
       <table>
         <tr>
           <th colspan="2">Merged Header</th>
         </tr>
         <tr>
-          <td>A</td><td>B</td>
+          <td rowspan="2">A</td><td>B</td>
         </tr>
+        <tr><td>C</td></tr>
       </table>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("merged table cells");
+    expect(unsupported).not.toContain("merged table cells");
   });
 
-  it("detects merged table cells (rowspan)", () => {
-    const html = `
-      <table>
-        <tr>
-          <td rowspan="3">Merged</td>
-          <td>A</td>
-        </tr>
-        <tr><td>B</td></tr>
-        <tr><td>C</td></tr>
-      </table>
-    `;
+  it("detects nested tables", () => {
+    const html = `<table><tr><td><table><tr><td>Inner</td></tr></table></td></tr></table>`;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("merged table cells");
+    expect(unsupported).toContain("nested tables");
   });
 
-  it("detects chart and diagram macros", () => {
+  it("does not flag chart and diagram macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="drawio">
         <ac:parameter ac:name="diagramName">Architecture</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("charts/diagrams");
+    expect(unsupported).not.toContain("charts/diagrams");
   });
 
-  it("detects page tree macros", () => {
+  it("does not flag page tree macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="pagetree">
         <ac:parameter ac:name="root">@self</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("page tree/children display");
+    expect(unsupported).not.toContain("page tree/children display");
   });
 
-  it("detects include page macros", () => {
+  it("does not flag include page macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="include">
         <ac:parameter ac:name="pageTitle">Another Page</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("page include");
+    expect(unsupported).not.toContain("page include");
   });
 
-  it("detects excerpt macros", () => {
+  it("does not flag excerpt macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="excerpt">
         <ac:rich-text-body><p>This is an excerpt</p></ac:rich-text-body>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("excerpt macros");
+    expect(unsupported).not.toContain("excerpt macros");
   });
 
-  it("detects iframe and widget macros", () => {
+  it("does not flag iframe and widget macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="iframe">
         <ac:parameter ac:name="url">https://example.com</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("embedded iframe/widget/HTML");
+    expect(unsupported).not.toContain("embedded iframe/widget/HTML");
   });
 
-  it("detects roadmap macros", () => {
+  it("does not flag roadmap macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="roadmap">
         <ac:parameter ac:name="title">Project Roadmap</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("roadmap/timeline");
+    expect(unsupported).not.toContain("roadmap/timeline");
   });
 
-  it("detects attachments list macros", () => {
+  it("does not flag attachments list macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="attachments">
         <ac:parameter ac:name="old">false</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("attachments list");
+    expect(unsupported).not.toContain("attachments list");
   });
 
-  it("detects dynamic content display macros", () => {
+  it("does not flag dynamic content display macros (preserved as opaque macros)", () => {
     const html = `
       <ac:structured-macro ac:name="contentbylabel">
         <ac:parameter ac:name="label">important</ac:parameter>
       </ac:structured-macro>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported).toContain("dynamic content display");
+    expect(unsupported).not.toContain("dynamic content display");
   });
 
   it("returns empty array for documents with only supported features", () => {
@@ -598,7 +887,7 @@ describe("detectUnsupportedFeatures", () => {
     expect(unsupported).toHaveLength(0);
   });
 
-  it("detects multiple unsupported features in one document", () => {
+  it("only flags features that are lost in documents mixing them with preserved macros", () => {
     const html = `
       <ac:structured-macro ac:name="section">
         <ac:rich-text-body>
@@ -613,14 +902,11 @@ describe("detectUnsupportedFeatures", () => {
       </ac:structured-macro>
       <table>
         <tr><th colspan="2">Merged</th></tr>
-        <tr><td>A</td><td>B</td></tr>
+        <tr><td>A</td><td><table><tr><td>B</td></tr></table></td></tr>
       </table>
     `;
     const unsupported = detectUnsupportedFeatures(html);
-    expect(unsupported.length).toBeGreaterThan(1);
-    expect(unsupported).toContain("multi-column layout");
-    expect(unsupported).toContain("Jira issue integration");
-    expect(unsupported).toContain("merged table cells");
+    expect(unsupported).toEqual(["nested tables"]);
   });
 });
 
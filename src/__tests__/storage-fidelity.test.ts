@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { compareStorage, formatFidelityIssues } from "../storage-fidelity.js";
+import { checkRoundTrip } from "../commands/check.js";
+
+describe("compareStorage", () => {
+  it("reports nothing for storage that only differs in whitespace, comments and CDATA", () => {
+    const before = `<p>a  b</p>\n<!-- note --><ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[x < 1]]></ac:plain-text-body></ac:structured-macro>`;
+    const after = `<p>a b</p><ac:structured-macro ac:name="code"><ac:plain-text-body>x &lt; 1</ac:plain-text-body></ac:structured-macro>`;
+    expect(compareStorage(before, after)).toEqual([]);
+    expect(formatFidelityIssues([])).toEqual(["round trip is lossless"]);
+  });
+
+  it("reports lost elements, macros and attributes with their location", () => {
+    const before = `<p>one</p><p>two <span style="color: red;">red</span></p><ac:structured-macro ac:name="toc" ac:macro-id="m1"/><ac:structured-macro ac:name="chart"/>`;
+    const after = `<p>one</p><p>two red</p><ac:structured-macro ac:name="toc"/>`;
+    expect(formatFidelityIssues(compareStorage(before, after))).toEqual([
+      `/p[2]/text()[1]: text "two" becomes "two red"`,
+      `/p[2]/span[1]: lost <span> "red"`,
+      `/ac:structured-macro[1]: lost attribute ac:macro-id="m1"`,
+      `/ac:structured-macro[2]: lost "chart" macro`,
+    ]);
+  });
+
+  it("reports added nodes and changed attributes and keeps entities readable", () => {
+    const before = `<p>a&nbsp;b</p><ac:image ac:width="300"><ri:attachment ri:filename="x.png"/></ac:image>`;
+    const after = `<p>a b</p><ac:image ac:width="500"><ac:caption>c</ac:caption><ri:attachment ri:filename="x.png"/></ac:image>`;
+    expect(formatFidelityIssues(compareStorage(before, after))).toEqual([
+      `/p[1]/text()[1]: text "a&nbsp;b" becomes "a b"`,
+      `/ac:image[1]: attribute ac:width="300" becomes "500"`,
+      `/ac:image[1]/ri:attachment[1]: added <ac:caption> "c" before it`,
+    ]);
+    expect(formatFidelityIssues(compareStorage(`<p>a</p>`, `<p>a</p><p>b</p>`))).toEqual([`/p[1]: added <p> "b" after it`]);
+    expect(formatFidelityIssues(compareStorage(`<p></p>`, `<p><br/></p>`))).toEqual([`/p[1]: added <br>`]);
+  });
+});
+
+describe("checkRoundTrip", () => {
+  it("finds nothing to report for storage markdown represents exactly", () => {
+    expect(checkRoundTrip(`<h1>Title</h1><p>Some <strong>bold</strong> text</p><ul><li>one</li><li>two</li></ul>`)).toEqual([]);
+  });
+
+  it("reports what an unchanged upload would lose", () => {
+    const storage = `<p>Intro</p><p>Coloured <span style="color: rgb(255,0,0);">text</span></p>`;
+    expect(checkRoundTrip(storage).map((i) => i.message)).toContain(`lost <span> "text"`);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { locateStorageIssues, validateStorage } from "../storage-validate.js";
+import { markdownToStorageHtml } from "../storage-dom.js";
+
+describe("validateStorage", () => {
+  it("accepts converted markdown with macros, tasks, layouts and entities", () => {
+    const md = [
+      "<!-- layout-section:two_equal -->", "<!-- layout-cell -->", "# Title &amp; more", "",
+      "- [ ] task <!-- task:1 -->", "", "```js", "a < b && c", "```", "",
+      "<!-- layout-cell -->", "[Spec](page:DEV:Spec) and [ABC-1](jira:ABC-1) <!-- status:green:Done -->",
+    ].join("\n");
+    expect(validateStorage(markdownToStorageHtml(md))).toEqual([]);
+    expect(validateStorage("<p>a&nbsp;b<br/></p>")).toEqual([]);
+    // A blank status lozenge is legitimate
+    expect(validateStorage(`<p><ac:structured-macro ac:name="status"><ac:parameter ac:name="colour">Grey</ac:parameter></ac:structured-macro></p>`)).toEqual([]);
+  });
+
+  it("reports malformed XML", () => {
+    expect(validateStorage("<p>a<br>b</p>")).toEqual(["<br> must be self-closing (<br/>)"]);
+    expect(validateStorage("<p>a & b</p>")).toEqual(['Unescaped "&" near "& b"']);
+    expect(validateStorage("<p><strong>x</p></strong>")).toEqual([
+      "<strong> is not closed before </p>",
+      "Closing tag </strong> without an opening tag",
+    ]);
+    expect(validateStorage("<p>open")).toEqual(["<p> is not closed"]);
+  });
+
+  it("reports misplaced storage elements, missing macro parameters and misused CDATA", () => {
+    expect(validateStorage(`<p><ri:page ri:content-title="x"/></p>`)).toEqual([
+      "<ri:page> must be inside a link, image or macro parameter, not <p>",
+    ]);
+    expect(validateStorage(`<ac:task><ac:task-body>x</ac:task-body></ac:task>`)).toEqual([
+      "<ac:task> must be inside <ac:task-list>, not the top level",
+      "<ac:task> needs a <ac:task-status> element",
+    ]);
+    expect(validateStorage(`<ac:structured-macro ac:name="jira"><ac:parameter ac:name="server">S</ac:parameter></ac:structured-macro>`)).toEqual([
+      'Macro "jira" needs the parameter "key" or "jqlQuery"',
+    ]);
+    expect(validateStorage("<p><![CDATA[x]]> a]]>b</p>")).toEqual([
+      "CDATA inside <p>; only <ac:plain-text-body> and <ac:plain-text-link-body> may hold CDATA",
+      "`]]>` outside CDATA (end of a CDATA section without a start)",
+    ]);
+  });
+});
+
+describe("locateStorageIssues", () => {
+  it("maps problems to the markdown line of their block", () => {
+    const body = ["Intro", "", "<div>", "a & b", "</div>", "", "Outro"].join("\n");
+    const convert = (text: string) => markdownToStorageHtml(text);
+    expect(locateStorageIssues(convert(body), body, convert)).toEqual([{ message: 'Unescaped "&" near "& b"', line: 3 }]);
+  });
+
+  it("does not blame blocks that are only valid in context", () => {
+    const body = ["<!-- layout-section:single -->", "", "<!-- layout-cell -->", "", "Text"].join("\n");
+    const convert = (text: string) => markdownToStorageHtml(text);
+    expect(locateStorageIssues(convert(body), body, convert)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { decideSync } from "../commands/sync.js";
+import { uploadAll } from "../commands/upload.js";
+import { emitHeader } from "../md-header.js";
+import { mergeText } from "../git.js";
+
+describe("decideSync", () => {
+  it("pushes a resolved conflict on the next sync instead of conflicting again", async () => {
+    const base = "draft\n";
+    const remote = "final\n";
+    // First sync: both sides changed the same line
+    expect(decideSync({ local: "review\n", remote, base, remoteUnchanged: false })).toBe("merge");
+    expect((await mergeText(os.tmpdir(), { local: "review\n", base, remote })).conflicts).toBe(1);
+    // The merged file's header records the remote state; the user resolves the markers
+    expect(decideSync({ local: "final (reviewed)\n", remote, base, remoteUnchanged: true })).toBe("push");
+  });
+
+  it("uses the header state when the file has no git history", () => {
+    expect(decideSync({ local: "edited\n", remote: "text\n", remoteUnchanged: true })).toBe("push");
+    expect(decideSync({ local: "text\n", remote: "edited remotely\n", base: "text\n", remoteUnchanged: false })).toBe("pull");
+    expect(decideSync({ local: "a\n", remote: "b\n", remoteUnchanged: false })).toBe("merge");
+  });
+
+  it("pulls READONLY files and leaves equal bodies alone", () => {
+    expect(decideSync({ local: "a\n", remote: "b\n", base: "a\n", readonly: true, remoteUnchanged: false })).toBe("pull");
+    expect(decideSync({ local: "a\n", remote: "a\n", remoteUnchanged: false })).toBe("up-to-date");
+  });
+});
+
+describe("decideSync for READONLY files", () => {
+  it("skips local changes instead of discarding them, unless forced", () => {
+    expect(decideSync({ local: "a\n", remote: "b\n", base: "c\n", readonly: true, remoteUnchanged: false })).toBe("skip");
+    expect(decideSync({ local: "a\n", remote: "b\n", readonly: true, remoteUnchanged: true })).toBe("skip");
+    expect(decideSync({ local: "a\n", remote: "b\n", base: "c\n", readonly: true, remoteUnchanged: false, force: true })).toBe("pull");
+  });
+});
+
+describe("conflicted sync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("does not upload a file with conflict markers even though its header matches the remote", async () => {
+    const { merged, conflicts } = await mergeText(os.tmpdir(), { local: "review\n", base: "draft\n", remote: "final\n" });
+    expect(conflicts).toBe(1);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sync-conflict-"));
+    const file = path.join(dir, "page.md");
+    // As written by sync: the header records the remote state the merge was based on
+    fs.writeFileSync(file, emitHeader({ pageId: "42", version: 7, hash: "abc" }) + merged);
+
+    const requests: string[] = [];
+    vi.stubEnv("CONFLUENCE_BASE_URL", "https://example.atlassian.net");
+    vi.stubGlobal("fetch", async (url: string, init?: { method?: string }) => {
+      requests.push(`${init?.method ?? "GET"} ${url}`);
+      throw new Error("no network in tests");
+    });
+    await uploadAll({ cwd: dir, args: [file] });
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { buildOutgoingStorage, checkOutgoingStorage, moveRenamedPage, splitTitleHeading, syncLabels, treeParentId } from "../commands/upload.js";
+import { ConfluenceClient } from "../api.js";
+import { renderMarkdownBody } from "../storage-dom.js";
+import { parseBlocks } from "../inline-tags.js";
+
+describe("buildOutgoingStorage", () => {
+  it("replaces a tagged loose list as a whole in a partial update", () => {
+    const storage = `<p data-node-id="a">Intro</p><ol data-node-id="b"><li><p>Fourth</p><p>Second para</p></li><li>x</li></ol><p data-node-id="c">After</p>`;
+    const body = renderMarkdownBody(storage);
+    expect(parseBlocks(body).map((b) => b.tag?.nodeId)).toEqual(["a", "b", "c"]);
+    const outgoing = buildOutgoingStorage(storage, body);
+    expect(outgoing.mode).toBe("partial");
+    expect(outgoing.html).toBe(storage);
+  });
+
+  it("uploads an edited list item without dropping later items", () => {
+    const storage = `<ul data-node-id="b"><li><p>one</p><p>more</p></li><li>two</li></ul>`;
+    const body = renderMarkdownBody(storage).replace("two", "two (edited)");
+    const outgoing = buildOutgoingStorage(storage, body);
+    expect(outgoing.mode).toBe("partial");
+    expect(outgoing.html).toBe(`<ul data-node-id="b"><li><p>one</p><p>more</p></li><li>two (edited)</li></ul>`);
+  });
+
+  it("keeps CDATA, self-closing elements and entities of the untouched storage", () => {
+    const code = `<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[a < b &nbsp;]]></ac:plain-text-body></ac:structured-macro>`;
+    const storage = `<p data-node-id="a">Old</p><p>x&nbsp;y<br/><ac:emoticon ac:name="tick"/></p>${code}`;
+    const body = renderMarkdownBody(storage).replace("Old", "- [ ] task\n- plain");
+    const outgoing = buildOutgoingStorage(storage, body);
+    expect(outgoing.mode).toBe("partial");
+    expect(outgoing.html).toBe(
+      `<ac:task-list data-node-id="a"><ac:task><ac:task-status>incomplete</ac:task-status><ac:task-body>task</ac:task-body></ac:task></ac:task-list>` +
+      `<ul><li>plain</li></ul><p>x&nbsp;y<br/><ac:emoticon ac:name="tick"/></p>${code}`
+    );
+  });
+});
+
+describe("splitTitleHeading", () => {
+  it("takes the title from a heading on the first non-blank line", () => {
+    expect(splitTitleHeading("\n# My Page #\n\nText\n")).toEqual({ title: "My Page", body: "Text\n" });
+  });
+
+  it("ignores # lines further down, such as comments in code blocks", () => {
+    const body = "Intro\n\n```bash\n# install deps\nnpm ci\n```\n";
+    expect(splitTitleHeading(body)).toEqual({ body });
+  });
+});
+
+describe("checkOutgoingStorage", () => {
+  const broken = `<p>a & b</p>`;
+
+  it("only blocks problems the live page does not have yet", () => {
+    expect(checkOutgoingStorage("page.md", broken, "a & b", 0, {})).toBe(false);
+    expect(checkOutgoingStorage("page.md", `${broken}<p>new</p>`, "a & b\n\nnew", 0, {}, { liveStorage: broken })).toBe(true);
+  });
+
+  it("uploads invalid storage with --force", () => {
+    expect(checkOutgoingStorage("page.md", broken, "a & b", 0, {}, { force: true })).toBe(true);
+  });
+});
+
+describe("syncLabels", () => {
+  const client = (remote: string[], calls: string[]) => ({
+    getPageLabels: async () => remote,
+    addPageLabels: async (_id: string, names: string[]) => { calls.push(`add ${names.join(",")}`); },
+    removePageLabel: async (_id: string, name: string) => { calls.push(`remove ${name}`); },
+  }) as unknown as ConfluenceClient;
+
+  it("adds and removes labels to match the header", async () => {
+    const calls: string[] = [];
+    await syncLabels(client(["old", "keep"], calls), "42", ["keep", "new"]);
+    expect(calls).toEqual(["add new", "remove old"]);
+  });
+
+  it("leaves labels alone without a labels line and in dry runs", async () => {
+    const calls: string[] = [];
+    await syncLabels(client(["old"], calls), "42", undefined);
+    await syncLabels(client(["old"], calls), "42", [], { dryRun: true });
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("moveRenamedPage", () => {
+  const tree = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "upload-move-"));
+    fs.mkdirSync(path.join(dir, "Guides", "Setup"), { recursive: true });
+    fs.writeFileSync(path.join(dir, "Guides", "index.md"), "<!--\npageId: 10\n-->\n# Guides\n");
+    fs.writeFileSync(path.join(dir, "Guides", "Setup", "index.md"), "<!--\npageId: 11\n-->\n# Setup\n");
+    return dir;
+  };
+  const client = (calls: string[]) => ({
+    movePage: async (id: string, parentId: string) => { calls.push(`move ${id} ${parentId}`); },
+  }) as unknown as ConfluenceClient;
+
+  it("finds the parent page of a place in a tree", () => {
+    const dir = tree();
+    expect(treeParentId(path.join(dir, "Guides", "Setup", "Linux.md"))).toBe("11");
+    expect(treeParentId(path.join(dir, "Guides", "Setup", "index.md"))).toBe("10");
+    expect(treeParentId(path.join(dir, "Guides", "index.md"))).toBeUndefined();
+  });
+
+  it("moves a page below the parent of its new place", async () => {
+    const dir = tree();
+    const calls: string[] = [];
+    const file = path.join(dir, "Guides", "Setup", "Linux.md");
+    expect(await moveRenamedPage(client(calls), "42", file, {}, "10")).toBe("11");
+    expect(await moveRenamedPage(client(calls), "42", file, {}, "11")).toBeUndefined();
+    expect(await moveRenamedPage(client(calls), "42", file, {}, "10", { dryRun: true })).toBeUndefined();
+    expect(await moveRenamedPage(client(calls), "42", path.join(dir, "Linux.md"), { parentId: "7" }, "10")).toBe("7");
+    expect(calls).toEqual(["move 42 11", "move 42 7"]);
+  });
+});
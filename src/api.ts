@@ -18,10 +18,71 @@ export interface PageResponseV2 {
   id: string;
   title: string;
   spaceId?: string;
+  parentId?: string;
   body?: { storage?: { value?: string } };
   version?: { number: number };
 }
 
+export interface ChildPageV2 {
+  id: string;
+  title: string;
+  status?: string;
+  spaceId?: string;
+  childPosition?: number;
+}
+
+export interface SpaceV2 {
+  id: string;
+  key: string;
+  name: string;
+  homepageId?: string;
+}
+
+export interface SpacePageV2 {
+  id: string;
+  title: string;
+  status?: string;
+  parentId?: string | null;
+  parentType?: string | null;
+  position?: number;
+  version?: { number: number };
+}
+
+export interface AttachmentV2 {
+  id: string;
+  title: string;
+  mediaType?: string;
+  fileSize?: number;
+  comment?: string;
+  downloadLink?: string;
+  version?: { number: number };
+}
+
+export interface LabelV2 {
+  id: string;
+  name: string;
+  prefix?: string; // global, my (personal) or team
+}
+
+export interface CommentV2 {
+  id: string;
+  status?: string;
+  title?: string;
+  pageId?: string;
+  parentCommentId?: string;
+  resolutionStatus?: string; // inline comments: open, reopened, resolved or dangling
+  properties?: { inlineMarkerRef?: string; inlineOriginalSelection?: string };
+  version?: { number: number; authorId?: string; createdAt?: string };
+  body?: { storage?: { value?: string } };
+}
+
+export type CommentType = "inline" | "footer";
+
+interface PaginatedResponseV2<T> {
+  results: T[];
+  _links?: { next?: string };
+}
+
 function buildAuthHeader(opts: ConfluenceClientOptions): Record<string, string> {
   if (opts.email && opts.apiToken) {
     const b64 = Buffer.from(`${opts.email}:${opts.apiToken}`).toString("base64");
@@ -62,6 +123,24 @@ export class ConfluenceClient {
     return u.toString();
   }
 
+  /**
+   * Fetch all results of a cursor-paginated v2 list endpoint.
+   * How: Follow `_links.next` (a path relative to the site) until it is absent.
+   */
+  private async paginate<T>(firstUrl: string, label: string): Promise<T[]> {
+    const out: T[] = [];
+    let url: string | undefined = firstUrl;
+    while (url) {
+      const res = await fetch(url, { headers: this.headers });
+      if (!res.ok) throw new Error(`${label} failed: ${res.status} ${res.statusText}`);
+      const data = (await res.json()) as PaginatedResponseV2<T>;
+      out.push(...(data.results ?? []));
+      const next = data._links?.next;
+      url = next ? new URL(next, this.base).toString() : undefined;
+    }
+    return out;
+  }
+
   async getPage(pageId: string): Promise<PageResponseV2> {
     const url = this.build(`/api/v2/pages/${pageId}`);
     const res = await fetch(url, { headers: this.headers });
@@ -77,7 +156,7 @@ export class ConfluenceClient {
     return res.json();
   }
 
-  async getPageStorage(pageId: string): Promise<{ title: string; storageHtml: string; version: number; spaceId?: string }>
+  async getPageStorage(pageId: string): Promise<{ title: string; storageHtml: string; version: number; spaceId?: string; parentId?: string }>
   {
     const url = this.build(`/api/v2/pages/${pageId}`, { "body-format": "storage" });
     const res = await fetch(url, { headers: this.headers });
@@ -85,7 +164,7 @@ export class ConfluenceClient {
     const data: PageResponseV2 = await res.json();
     const storageHtml = data?.body?.storage?.value ?? "";
     const version = data?.version?.number ?? 1;
-    return { title: data.title, storageHtml, version, spaceId: data.spaceId };
+    return { title: data.title, storageHtml, version, spaceId: data.spaceId, parentId: data.parentId || undefined };
   }
 
   async getPageAtlasDoc(pageId: string): Promise<any | undefined> {
@@ -110,6 +189,20 @@ export class ConfluenceClient {
     return res.json();
   }
 
+  /**
+   * Fetch the storage of an older page version.
+   * Why: v2 has no body for historical versions; the v1 content API serves them.
+   * Returns undefined when the version cannot be read.
+   */
+  async getPageStorageAtVersion(pageId: string, version: number): Promise<string | undefined> {
+    const url = this.buildV1(`/content/${pageId}`, { status: "historical", version, expand: "body.storage" });
+    const res = await fetch(url, { headers: this.headers });
+    if (!res.ok) return undefined;
+    const data = await res.json();
+    const value = (data as any)?.body?.storage?.value;
+    return typeof value === "string" ? value : undefined;
+  }
+
   async updatePageStorage(pageId: string, nextHtml: string, currentVersion: number, title?: string, spaceId?: string): Promise<void> {
     const url = this.build(`/api/v2/pages/${pageId}`);
     const payload = {
@@ -127,12 +220,232 @@ export class ConfluenceClient {
     }
   }
 
-  async createPage(spaceId: string, title: string, parentId?: string): Promise<{ id: string }>{
+  /**
+   * Move a page below another page, as its last child.
+   * Why: v2 has no move endpoint; the v1 content move API changes the parent.
+   */
+  async movePage(pageId: string, parentId: string): Promise<void> {
+    const res = await fetch(this.buildV1(`/content/${pageId}/move/append/${parentId}`), { method: "PUT", headers: this.headers });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`movePage ${pageId} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * Move a page to the trash; space admins can restore it from there.
+   */
+  async trashPage(pageId: string): Promise<void> {
+    const res = await fetch(this.build(`/api/v2/pages/${pageId}`), { method: "DELETE", headers: this.headers });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`trashPage ${pageId} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * Archive pages. Confluence archives them in a background task.
+   */
+  async archivePages(pageIds: string[]): Promise<void> {
+    const payload = { pages: pageIds.map((id) => ({ id })) };
+    const res = await fetch(this.buildV1("/content/archive"), { method: "POST", headers: this.headers, body: JSON.stringify(payload) });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`archivePages ${pageIds.join(",")} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * List the direct child pages of a page, ordered by their position in the page tree.
+   */
+  async getPageChildren(pageId: string): Promise<ChildPageV2[]> {
+    const url = this.build(`/api/v2/pages/${pageId}/children`, { limit: 250 });
+    const children = await this.paginate<ChildPageV2>(url, `getPageChildren ${pageId}`);
+    return children.sort((a, b) => (a.childPosition ?? 0) - (b.childPosition ?? 0));
+  }
+
+  /**
+   * Resolve a space by numeric id or by space key.
+   */
+  async getSpace(keyOrId: string): Promise<SpaceV2> {
+    if (/^\d+$/.test(keyOrId)) {
+      const res = await fetch(this.build(`/api/v2/spaces/${keyOrId}`), { headers: this.headers });
+      if (!res.ok) throw new Error(`getSpace ${keyOrId} failed: ${res.status} ${res.statusText}`);
+      return res.json();
+    }
+    const res = await fetch(this.build(`/api/v2/spaces`, { keys: keyOrId }), { headers: this.headers });
+    if (!res.ok) throw new Error(`getSpace ${keyOrId} failed: ${res.status} ${res.statusText}`);
+    const data = (await res.json()) as PaginatedResponseV2<SpaceV2>;
+    const space = data.results?.[0];
+    if (!space) throw new Error(`getSpace ${keyOrId} failed: space not found`);
+    return space;
+  }
+
+  /**
+   * List every current page in a space (metadata only, no bodies).
+   */
+  async getSpacePages(spaceId: string): Promise<SpacePageV2[]> {
+    const url = this.build(`/api/v2/spaces/${spaceId}/pages`, { status: "current", limit: 250 });
+    return this.paginate<SpacePageV2>(url, `getSpacePages ${spaceId}`);
+  }
+
+  /**
+   * List all attachments of a page.
+   */
+  async listAttachments(pageId: string): Promise<AttachmentV2[]> {
+    const url = this.build(`/api/v2/pages/${pageId}/attachments`, { limit: 250 });
+    return this.paginate<AttachmentV2>(url, `listAttachments ${pageId}`);
+  }
+
+  /**
+   * Download the content of an attachment.
+   * How: `downloadLink` is relative to the wiki context path; redirects to the
+   * media service are followed by fetch.
+   */
+  async downloadAttachment(attachment: AttachmentV2): Promise<Buffer> {
+    if (!attachment.downloadLink) throw new Error(`downloadAttachment ${attachment.title} failed: no download link`);
+    const url = new URL("/wiki" + attachment.downloadLink, this.base).toString();
+    const { Accept: _accept, "Content-Type": _json, ...headers } = this.headers;
+    const res = await fetch(url, { headers });
+    if (!res.ok) throw new Error(`downloadAttachment ${attachment.title} failed: ${res.status} ${res.statusText}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  /**
+   * Upload a new attachment, or a new version of an existing one when
+   * `attachmentId` is given.
+   * Why: v2 has no attachment upload endpoint, so this uses the v1 multipart API.
+   * How: The comment is stored with the attachment version (used for change detection).
+   */
+  async uploadAttachment(
+    pageId: string,
+    filename: string,
+    data: Buffer,
+    opts: { comment?: string; mediaType?: string; attachmentId?: string } = {}
+  ): Promise<void> {
+    const pathname = opts.attachmentId
+      ? `/content/${pageId}/child/attachment/${opts.attachmentId}/data`
+      : `/content/${pageId}/child/attachment`;
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(data)], { type: opts.mediaType || "application/octet-stream" }), filename);
+    if (opts.comment) form.append("comment", opts.comment);
+    form.append("minorEdit", "true");
+    // Let fetch set the multipart Content-Type (with boundary)
+    const { "Content-Type": _json, ...headers } = this.headers;
+    const res = await fetch(this.buildV1(pathname), {
+      method: "POST",
+      headers: { ...headers, "X-Atlassian-Token": "no-check" },
+      body: form,
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`uploadAttachment ${filename} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * Names of the global labels of a page, sorted. Personal (`my:`) and team
+   * labels are not part of the page's own metadata.
+   */
+  async getPageLabels(pageId: string): Promise<string[]> {
+    const url = this.build(`/api/v2/pages/${pageId}/labels`, { limit: 250 });
+    const labels = await this.paginate<LabelV2>(url, `getPageLabels ${pageId}`);
+    return labels.filter((l) => !l.prefix || l.prefix === "global").map((l) => l.name).sort();
+  }
+
+  /**
+   * Add global labels to a page.
+   * Why: v2 has no endpoints to change labels, so this uses the v1 label API.
+   */
+  async addPageLabels(pageId: string, names: string[]): Promise<void> {
+    const payload = names.map((name) => ({ prefix: "global", name }));
+    const res = await fetch(this.buildV1(`/content/${pageId}/label`), { method: "POST", headers: this.headers, body: JSON.stringify(payload) });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`addPageLabels ${pageId} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * Remove a label from a page (v1 label API, see addPageLabels).
+   */
+  async removePageLabel(pageId: string, name: string): Promise<void> {
+    const res = await fetch(this.buildV1(`/content/${pageId}/label`, { name }), { method: "DELETE", headers: this.headers });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`removePageLabel ${pageId} ${name} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * List the top-level inline or footer comments of a page with their storage body.
+   */
+  async getPageComments(pageId: string, type: CommentType): Promise<CommentV2[]> {
+    const url = this.build(`/api/v2/pages/${pageId}/${type}-comments`, { "body-format": "storage", limit: 250 });
+    return this.paginate<CommentV2>(url, `getPageComments ${type} ${pageId}`);
+  }
+
+  /**
+   * List the direct replies of an inline or footer comment.
+   */
+  async getCommentReplies(commentId: string, type: CommentType): Promise<CommentV2[]> {
+    const url = this.build(`/api/v2/${type}-comments/${commentId}/children`, { "body-format": "storage", limit: 250 });
+    return this.paginate<CommentV2>(url, `getCommentReplies ${type} ${commentId}`);
+  }
+
+  /**
+   * Post a reply to an inline or footer comment.
+   */
+  async replyToComment(commentId: string, type: CommentType, storageHtml: string): Promise<CommentV2> {
+    const url = this.build(`/api/v2/${type}-comments`);
+    const payload = { parentCommentId: commentId, body: { representation: "storage", value: storageHtml } };
+    const res = await fetch(url, { method: "POST", headers: this.headers, body: JSON.stringify(payload) });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`replyToComment ${commentId} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+    return res.json();
+  }
+
+  /**
+   * Resolve an inline comment thread.
+   * How: The v2 update needs the next version and the body, so the comment is
+   * read first and written back unchanged with `resolved: true`.
+   */
+  async resolveInlineComment(commentId: string): Promise<void> {
+    const url = this.build(`/api/v2/inline-comments/${commentId}`, { "body-format": "storage" });
+    const current = await fetch(url, { headers: this.headers });
+    if (!current.ok) throw new Error(`resolveInlineComment ${commentId} failed: ${current.status} ${current.statusText}`);
+    const comment = (await current.json()) as CommentV2;
+    const payload = {
+      version: { number: (comment.version?.number ?? 1) + 1 },
+      body: { representation: "storage", value: comment.body?.storage?.value ?? "" },
+      resolved: true,
+    };
+    const res = await fetch(this.build(`/api/v2/inline-comments/${commentId}`), { method: "PUT", headers: this.headers, body: JSON.stringify(payload) });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`resolveInlineComment ${commentId} failed: ${res.status} ${res.statusText}\n${text}`);
+    }
+  }
+
+  /**
+   * Display name of a user, or undefined when it cannot be read.
+   * Why: v2 has no user endpoint; the v1 user API resolves account ids.
+   */
+  async getUserDisplayName(accountId: string): Promise<string | undefined> {
+    const res = await fetch(this.buildV1(`/user`, { accountId }), { headers: this.headers });
+    if (!res.ok) return undefined;
+    const data = await res.json();
+    return (data as any)?.displayName || (data as any)?.publicName || undefined;
+  }
+
+  async createPage(spaceId: string, title: string, parentId?: string, storageHtml: string = "<p></p>"): Promise<{ id: string }>{
     const url = this.build(`/api/v2/pages`);
     const payload: any = {
       spaceId,
       title,
-      body: { storage: { value: "<p></p>", representation: "storage" } },
+      body: { storage: { value: storageHtml, representation: "storage" } },
     };
     if (parentId) payload.parentId = parentId;
     const res = await fetch(url, { method: "POST", headers: this.headers, body: JSON.stringify(payload) });
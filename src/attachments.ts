@@ -0,0 +1,243 @@
+/**
+ * Attachment sync between page attachments and local files.
+ *
+ * Why: markdownToStorageHtml turns `![alt](#file.png)` and
+ * `[text](#attachment:file.pdf)` into `ri:attachment` references, but the page
+ * shows broken images unless the files are attached to the page as well. In
+ * the other direction, local previews need the files on disk.
+ *
+ * How: On upload, collect references that point at local files (relative
+ * paths or bare `#filename` refs inside the markdown file's folder; dotfiles
+ * and files above it are never published), rewrite relative
+ * paths to the `#filename` form the converter understands, and upload files
+ * that are missing on the page or whose content hash differs. The hash is
+ * stored in the attachment comment as `sha256:<hex>`. On download, referenced
+ * attachments are saved to `<name>.assets/` next to the markdown file and the
+ * refs are rewritten to relative paths, which upload maps back.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { AttachmentV2, ConfluenceClient } from "./api.js";
+
+export interface LocalAttachment {
+  filename: string; // attachment title on the page
+  filePath: string; // absolute path of the local file
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+};
+
+/**
+ * Find local files referenced by images and attachment links in a markdown body.
+ *
+ * Returns the body with relative file paths rewritten to attachment refs
+ * (`#name` for images, `#attachment:name` for links) and the files to attach.
+ * References inside fenced code blocks and remote URLs are left alone.
+ */
+export function resolveLocalAttachments(body: string, mdFile: string): { body: string; attachments: LocalAttachment[] } {
+  const dir = path.dirname(mdFile);
+  const byName = new Map<string, LocalAttachment>();
+
+  const attach = (filePath: string): string | undefined => {
+    const filename = path.basename(filePath);
+    const known = byName.get(filename);
+    if (known && known.filePath !== filePath) {
+      console.warn(`[upload] Attachment name collision: ${filename} (${path.relative(dir, known.filePath)} and ${path.relative(dir, filePath)}); keeping the first`);
+      return undefined;
+    }
+    byName.set(filename, { filename, filePath });
+    return filename;
+  };
+
+  const localFile = (ref: string): string | undefined => {
+    if (!ref || /^[a-z][a-z0-9+.-]*:/i.test(ref) || ref.startsWith("/")) return undefined;
+    let decoded = ref;
+    try { decoded = decodeURIComponent(ref); } catch {}
+    const abs = path.resolve(dir, decoded);
+    if (!fs.existsSync(abs) || !fs.statSync(abs).isFile()) return undefined;
+    // Only files inside the page's folder are published: nothing above it (e.g. ../../.env), no dotfiles
+    const rel = path.relative(fs.realpathSync(dir), fs.realpathSync(abs));
+    if (path.isAbsolute(rel) || rel.split(path.sep).some((part) => part.startsWith("."))) {
+      console.warn(`[upload] Not attaching ${decoded}: only files in the folder of the markdown file (no dotfiles) become attachments`);
+      return undefined;
+    }
+    return abs;
+  };
+
+  let inFence = false;
+  const lines = body.split("\n").map((line) => {
+    if (/^\s*(```|~~~)/.test(line)) { inFence = !inFence; return line; }
+    if (inFence) return line;
+    return line.replace(/(!?)\[([^\]]*)\]\(([^)\s]+)\)/g, (m, bang: string, text: string, ref: string) => {
+      const isImage = bang === "!";
+      // Already an attachment ref: attach the file if it exists next to the markdown or in its assets folder
+      const attachRef = isImage ? ref.match(/^#(.+)$/) : ref.match(/^#attachment:(.+)$/);
+      if (attachRef) {
+        const file = localFile(attachRef[1]!) ?? localFile(path.join(path.basename(assetsDirFor(mdFile)), attachRef[1]!));
+        if (file) attach(file);
+        return m;
+      }
+      if (ref.startsWith("#")) return m;
+      const file = localFile(ref);
+      // Plain links to other markdown files stay links
+      if (!file || (!isImage && /\.mdx?$/i.test(file))) return m;
+      const filename = attach(file);
+      if (!filename) return m;
+      return isImage ? `![${text}](#${filename})` : `[${text}](#attachment:${filename})`;
+    });
+  });
+
+  return { body: lines.join("\n"), attachments: Array.from(byName.values()) };
+}
+
+/**
+ * Upload attachments that are missing on the page or whose content changed.
+ *
+ * Remote attachments without a recorded hash (uploaded through the browser or
+ * by older releases) are downloaded and hashed when their size matches.
+ *
+ * @returns number of uploaded (or, in dry-run, pending) attachments
+ */
+export async function syncAttachments(
+  client: ConfluenceClient,
+  pageId: string,
+  attachments: LocalAttachment[],
+  opts: { dryRun?: boolean; verbose?: boolean } = {}
+): Promise<number> {
+  if (attachments.length === 0) return 0;
+  const remote = new Map<string, AttachmentV2>();
+  for (const a of await client.listAttachments(pageId)) remote.set(a.title, a);
+
+  let uploaded = 0;
+  for (const local of attachments) {
+    const data = fs.readFileSync(local.filePath);
+    const hash = createHash("sha256").update(data).digest("hex");
+    const existing = remote.get(local.filename);
+    const remoteHash = existing?.comment?.match(/sha256:([0-9a-f]{64})/)?.[1];
+    let unchanged = !!existing && (remoteHash ? remoteHash === hash : existing.fileSize === data.length);
+    if (unchanged && !remoteHash) {
+      unchanged = createHash("sha256").update(await client.downloadAttachment(existing!)).digest("hex") === hash;
+    }
+    if (unchanged) {
+      if (opts.verbose) console.log(`[upload]   attachment unchanged: ${local.filename}`);
+      continue;
+    }
+    const action = existing ? "update" : "add";
+    uploaded++;
+    if (opts.dryRun) {
+      console.log(`[upload]   would ${action} attachment ${local.filename}`);
+      continue;
+    }
+    await client.uploadAttachment(pageId, local.filename, data, {
+      comment: `sha256:${hash}`,
+      mediaType: MEDIA_TYPES[path.extname(local.filename).toLowerCase()],
+      attachmentId: existing?.id,
+    });
+    console.log(`[upload]   ${action === "add" ? "added" : "updated"} attachment ${local.filename}`);
+  }
+  return uploaded;
+}
+
+/**
+ * Folder that holds downloaded attachments of a markdown file: `<name>.assets/`.
+ */
+export function assetsDirFor(mdFile: string): string {
+  return path.join(path.dirname(mdFile), `${path.basename(mdFile).replace(/\.mdx?$/i, "")}.assets`);
+}
+
+/**
+ * Download the attachments a page references into the assets folder.
+ *
+ * Files that already exist locally with the same content (hash from the
+ * attachment comment, otherwise file size) are not downloaded again.
+ *
+ * @returns paths of files that were written
+ */
+export async function downloadAttachments(
+  client: ConfluenceClient,
+  pageId: string,
+  storageHtml: string,
+  mdFile: string,
+  opts: { verbose?: boolean } = {}
+): Promise<string[]> {
+  const referenced = referencedAttachments(storageHtml);
+  if (referenced.size === 0) return [];
+  const dir = assetsDirFor(mdFile);
+  const written: string[] = [];
+  for (const att of await client.listAttachments(pageId)) {
+    if (!referenced.has(att.title)) continue;
+    const target = path.join(dir, att.title);
+    if (fs.existsSync(target)) {
+      const data = fs.readFileSync(target);
+      const remoteHash = att.comment?.match(/sha256:([0-9a-f]{64})/)?.[1];
+      const same = remoteHash
+        ? remoteHash === createHash("sha256").update(data).digest("hex")
+        : att.fileSize === data.length;
+      if (same) {
+        if (opts.verbose) console.log(`[download]   attachment unchanged: ${att.title}`);
+        continue;
+      }
+    }
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(target, await client.downloadAttachment(att));
+    console.log(`[download]   saved attachment ${path.join(path.basename(dir), att.title)}`);
+    written.push(target);
+  }
+  return written;
+}
+
+/**
+ * Point attachment refs at files in the assets folder, if they exist there.
+ *
+ * `![cap](#file.png)` becomes `![cap](page.assets/file.png)` and
+ * `[text](#attachment:file.pdf)` becomes `[text](page.assets/file.pdf)`.
+ * Refs without a local file are left unchanged.
+ */
+export function localizeAttachmentRefs(body: string, mdFile: string): string {
+  const dir = assetsDirFor(mdFile);
+  if (!fs.existsSync(dir)) return body;
+  const local = (name: string): string | undefined =>
+    fs.existsSync(path.join(dir, name)) ? `${encodeURIComponent(path.basename(dir))}/${encodeURIComponent(name)}` : undefined;
+  return body
+    .replace(/!\[([^\]]*)\]\(#([^)]+)\)/g, (m, alt: string, name: string) => {
+      const rel = local(name);
+      return rel ? `![${alt}](${rel})` : m;
+    })
+    .replace(/(^|[^!])\[([^\]]*)\]\(#attachment:([^)]+)\)/g, (m, pre: string, text: string, name: string) => {
+      const rel = local(name);
+      return rel ? `${pre}[${text}](${rel})` : m;
+    });
+}
+
+/**
+ * Filenames of attachments of this page referenced from storage (attachments
+ * of other pages carry an `ri:page` child and are ignored).
+ */
+function referencedAttachments(storageHtml: string): Set<string> {
+  const out = new Set<string>();
+  const re = /<ri:attachment\b([^>]*?)(?:\/>|>([\s\S]*?)<\/ri:attachment>)/gi;
+  for (const m of storageHtml.matchAll(re)) {
+    if (/<ri:(?:page|blog-post|content-entity)\b/i.test(m[2] || "")) continue;
+    const name = m[1]!.match(/\bri:filename=["']([^"']+)["']/i)?.[1];
+    if (name) out.add(unescapeXml(name));
+  }
+  return out;
+}
+
+function unescapeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
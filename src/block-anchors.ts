@@ -0,0 +1,186 @@
+/**
+ * Sidecar store of block fingerprints for pages without node ids.
+ *
+ * Why: Download only emits `<!-- node:… -->` tags for top-level elements with
+ * a `data-node-id`. Pages without them (older pages, pages created through the
+ * API) were replaced as a whole on every upload, which rebuilt untouched blocks
+ * from markdown and dropped their inline comments and other storage details.
+ *
+ * How: Download writes `.<filename>.blocks.json` next to the markdown file,
+ * holding for every top-level node a fingerprint of the markdown it renders to
+ * and of its storage XML. Upload finds the blocks whose markdown is unchanged,
+ * keeps the live nodes they came from as they are and converts only what was
+ * edited, inserted or moved; live nodes whose block is gone are deleted.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseBlocks } from "./inline-tags.js";
+import { renderMarkdownBody, storageHash, storageXmlNodes } from "./storage-dom.js";
+import { align } from "./storage-fidelity.js";
+
+export interface BlockAnchor {
+  markdown: string; // hash of the markdown the node renders to
+  storage: string; // hash of the node's storage XML
+}
+
+export interface AnchoredStorage {
+  html: string;
+  kept: number; // live nodes kept as they are
+  converted: number; // markdown blocks converted (edited, inserted or moved)
+  removed: number; // live nodes without a block in the markdown
+}
+
+/** Blocks a single node may render to (e.g. an expand with several paragraphs). */
+const MAX_BLOCKS_PER_NODE = 50;
+
+/**
+ * Path of the block fingerprint sidecar of a markdown file.
+ */
+export function blockAnchorsPath(mdFile: string): string {
+  return path.join(path.dirname(mdFile), `.${path.basename(mdFile)}.blocks.json`);
+}
+
+/**
+ * Fingerprints of the top-level nodes of storage in document order. Nodes
+ * with a `data-node-id` are mapped by their node tag instead, and nodes that
+ * render to no markdown cannot be anchored.
+ */
+export function blockAnchors(storageHtml: string): BlockAnchor[] {
+  const out: BlockAnchor[] = [];
+  for (const xml of storageXmlNodes(storageHtml || "")) {
+    const markdown = nodeMarkdown(xml);
+    if (!markdown || /^<[^>]*\sdata-node-id=/.test(xml)) continue;
+    out.push({ markdown: storageHash(markdown), storage: storageHash(xml) });
+  }
+  return out;
+}
+
+/**
+ * Save the fingerprints of the storage a markdown file was rendered from.
+ *
+ * @returns the sidecar path when it was written or removed (for committing), otherwise undefined
+ */
+export function saveBlockAnchors(mdFile: string, storageHtml: string): string | undefined {
+  const file = blockAnchorsPath(mdFile);
+  const anchors = blockAnchors(storageHtml);
+  if (anchors.length === 0) {
+    if (!fs.existsSync(file)) return undefined;
+    fs.rmSync(file);
+    return file;
+  }
+  const next = JSON.stringify(anchors.map((a) => [a.markdown, a.storage])) + "\n";
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === next) return undefined;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, next, "utf8");
+  return file;
+}
+
+/**
+ * Load the fingerprints saved for a markdown file (empty without a sidecar).
+ */
+export function loadBlockAnchors(mdFile: string): BlockAnchor[] {
+  const file = blockAnchorsPath(mdFile);
+  if (!fs.existsSync(file)) return [];
+  try {
+    const pairs = JSON.parse(fs.readFileSync(file, "utf8")) as [string, string][];
+    return pairs.map(([markdown, storage]) => ({ markdown, storage }));
+  } catch (err) {
+    console.warn(`[anchors] Ignoring unreadable block fingerprints ${path.basename(file)}: ${err}`);
+    return [];
+  }
+}
+
+/**
+ * Build the storage for a markdown body by keeping the live nodes of
+ * unchanged blocks and converting the rest.
+ *
+ * How: The body is cut into blocks, joining consecutive blocks when together
+ * they match a fingerprint. Blocks are aligned with the fingerprints by their
+ * markdown and the fingerprints with the live nodes by their storage, both
+ * with a longest common subsequence, so a block is only kept when neither
+ * side changed it. Runs of other blocks are converted together. Nodes without
+ * markdown (empty paragraphs, whitespace) stay with the kept node after them.
+ *
+ * @returns undefined when no block could be anchored
+ */
+export function applyBlockAnchors(
+  storageHtml: string,
+  body: string,
+  anchors: BlockAnchor[],
+  convert: (markdown: string) => string
+): AnchoredStorage | undefined {
+  if (anchors.length === 0) return undefined;
+  const nodes = storageXmlNodes(storageHtml || "").map((xml) => ({ xml, silent: !nodeMarkdown(xml) }));
+  const anchored = nodes.map((n, i) => ({ ...n, i })).filter((n) => !n.silent);
+
+  const segments = splitAnchoredBlocks(body, new Set(anchors.map((a) => a.markdown)));
+  // Unmatched blocks get a signature no fingerprint has
+  const bySegment = new Map(align(segments.map((s, i) => s.markdown ?? `#${i}`), anchors.map((a) => a.markdown))
+    .filter((p): p is [number, number] => p[0] !== undefined && p[1] !== undefined));
+  const byAnchor = new Map(align(anchors.map((a) => a.storage), anchored.map((n) => storageHash(n.xml)))
+    .filter((p): p is [number, number] => p[0] !== undefined && p[1] !== undefined));
+
+  const out: string[] = [];
+  const used = new Set<number>();
+  let run: string[] = [];
+  let converted = 0;
+  const flush = () => {
+    if (run.length === 0) return;
+    out.push(convert(run.join("\n\n")));
+    converted += run.length;
+    run = [];
+  };
+  for (const [s, segment] of segments.entries()) {
+    const anchor = bySegment.get(s);
+    const live = anchor === undefined ? undefined : byAnchor.get(anchor);
+    if (live === undefined) { run.push(segment.text); continue; }
+    flush();
+    const index = anchored[live]!.i;
+    let first = index;
+    while (first > 0 && nodes[first - 1]!.silent && !used.has(first - 1)) first--;
+    for (let i = first; i <= index; i++) { out.push(nodes[i]!.xml); used.add(i); }
+  }
+  flush();
+  if (used.size === 0) return undefined;
+  // Trailing nodes without markdown stay when the page still ends with the same node
+  const last = anchored[anchored.length - 1];
+  if (last && used.has(last.i)) out.push(...nodes.slice(last.i + 1).map((n) => n.xml));
+
+  const kept = anchored.filter((n) => used.has(n.i)).length;
+  return { html: out.join(""), kept, converted, removed: anchored.length - kept };
+}
+
+/**
+ * Cut a body into blocks; consecutive blocks that together match a known
+ * fingerprint (one node rendering to several blocks) become one segment.
+ */
+function splitAnchoredBlocks(body: string, known: Set<string>): { text: string; markdown?: string }[] {
+  let cursor = 0;
+  const blocks = parseBlocks(body).map((b) => {
+    const start = body.indexOf(b.text, cursor);
+    cursor = start === -1 ? cursor : start + b.text.length;
+    return { text: b.text, start, end: start + b.text.length };
+  });
+  const segments: { text: string; markdown?: string }[] = [];
+  for (let p = 0; p < blocks.length;) {
+    let end = p + 1;
+    let markdown: string | undefined;
+    for (let k = Math.min(blocks.length, p + MAX_BLOCKS_PER_NODE); k > p; k--) {
+      const first = blocks[p]!;
+      const lastBlock = blocks[k - 1]!;
+      const text = first.start === -1 || lastBlock.start === -1
+        ? blocks.slice(p, k).map((b) => b.text).join("\n\n")
+        : body.slice(first.start, lastBlock.end);
+      const hash = storageHash(text.trim());
+      if (known.has(hash)) { end = k; markdown = hash; break; }
+    }
+    segments.push({ text: blocks.slice(p, end).map((b) => b.text).join("\n\n"), markdown });
+    p = end;
+  }
+  return segments;
+}
+
+function nodeMarkdown(xml: string): string {
+  return renderMarkdownBody(xml).trim();
+}
@@ -12,6 +12,7 @@
 import dotenv from "dotenv";
 import { downloadAll } from "./commands/download.js";
 import { uploadAll } from "./commands/upload.js";
+import { syncAll } from "./commands/sync.js";
 // Lazy-load interactive commands to avoid importing optional deps during non-interactive runs
 import { initEnv } from "./commands/init.js";
 
@@ -26,12 +27,20 @@ function printHelp() {
       "Usage:",
       "  cli init                                    # Initialize git, .gitignore, and .env",
       "  cli download [--force] [--verbose]         # Download all mapped/headered pages",
+      "  cli download --tree <url|pageId> [dir]     # Download a page and all descendants as a folder tree",
+      "  cli download --space <KEY|id> [dir]        # Download every page of a space (skips unchanged pages)",
+      "  cli download ... --attachments             # Also save referenced attachments to <name>.assets/",
+      "  cli download ... --comments                # Also save comment threads to <name>.comments.json",
       "  cli pull [--force] [--verbose]             # Alias for 'download'",
-      "  cli upload [--all] [--verbose] [file...]   # Upload pages:",
+      "  cli upload [--all] [--verbose] [--force] [--dry-run] [file...]   # Upload pages:",
       "                                              #   --all: upload all markdown files",
       "                                              #   [file...]: upload specific files",
       "                                              #   (no args): interactive menu or git changes",
-      "  cli sync                                    # Placeholder: download then upload with diff preview (TBD)",
+      "                                              #   --force: overwrite newer remote edits, skip storage validation",
+      "                                              #   --dry-run: preview changes without uploading",
+      "  cli sync [--verbose] [--force] [file...]   # Three-way merge remote and local changes, upload clean merges",
+      "  cli check [--verbose] <file...|--all>      # Report what uploading the unchanged page would alter or lose",
+      "  cli prune [--dry-run] [--archive] [--yes] # Trash (or archive) pages whose files were deleted in git",
       "  cli create                                  # Create a new page under a parent",
       "  cli task                                    # Create a Jira task (reads .env defaults)",
       "",
@@ -58,13 +67,19 @@ async function main() {
       await uploadAll({ cwd: process.cwd(), args });
       break;
     case "sync":
-      console.log(
-        [
-          "[sync] Not yet implemented.",
-          "Planned: download current page state, show git diff, then upload.",
-          "For now, run 'download' then review diffs and run 'upload'.",
-        ].join("\n")
-      );
+      await syncAll({ cwd: process.cwd(), args });
+      break;
+    case "check":
+      {
+        const { checkAll } = await import("./commands/check.js");
+        await checkAll({ cwd: process.cwd(), args });
+      }
+      break;
+    case "prune":
+      {
+        const { pruneAll } = await import("./commands/prune.js");
+        await pruneAll({ cwd: process.cwd(), args });
+      }
       break;
     case "create":
       {
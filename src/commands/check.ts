@@ -0,0 +1,84 @@
+/**
+ * Check command: report what rebuilding a page from its markdown would change.
+ *
+ * Why: Storage features without a markdown form get lost on a round trip.
+ * Before a page is handed to an (AI) editor we want a precise list of the
+ * nodes, macros and attributes an upload would change in the blocks it
+ * converts from markdown.
+ *
+ * How: For each tracked file, download the current storage, render it to
+ * markdown as download does, build the storage upload would send for that
+ * markdown without block fingerprints (so every block is converted) and
+ * compare both structurally (see storage-fidelity.ts). Files with differences
+ * set a non-zero exit code.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fromEnv } from "../api.js";
+import { parseHeader } from "../md-header.js";
+import { MarkdownToStorageOptions, renderMarkdownBody } from "../storage-dom.js";
+import { FidelityIssue, compareStorage, formatFidelityIssues } from "../storage-fidelity.js";
+import { buildOutgoingStorage, conversionOptions, walkMarkdown } from "./upload.js";
+
+interface Options { cwd: string; args?: string[] }
+
+export async function checkAll(opts: Options): Promise<void> {
+  const { args = [] } = opts;
+  const verbose = args.includes("--verbose");
+  const explicitPaths = args.filter((a) => !a.startsWith("--"));
+  if (!args.includes("--all") && explicitPaths.length === 0) {
+    console.error("[check] Pass markdown files or --all");
+    process.exitCode = 1;
+    return;
+  }
+  const files = explicitPaths.length > 0
+    ? explicitPaths.map((p) => {
+        const abs = path.isAbsolute(p) ? p : path.resolve(opts.cwd, p);
+        if (!fs.existsSync(abs)) throw new Error(`File not found: ${p}`);
+        return abs;
+      })
+    : walkMarkdown(opts.cwd).filter((f) => !!parseHeader(fs.readFileSync(f, "utf8")).meta.pageId);
+
+  if (files.length === 0) { console.log("[check] No tracked files (files with pageId)"); return; }
+
+  const client = fromEnv();
+  let lossy = 0;
+  let failed = 0;
+  for (const file of files) {
+    const rel = path.relative(opts.cwd, file);
+    const { meta } = parseHeader(fs.readFileSync(file, "utf8"));
+    if (!meta.pageId) { console.log(`[check] Skip (no pageId): ${rel}`); continue; }
+    let storageHtml: string;
+    try {
+      ({ storageHtml } = await client.getPageStorage(meta.pageId));
+    } catch (err) {
+      // A deleted or inaccessible page must not stop the check of the others
+      console.error(`[check] ${rel} (page ${meta.pageId}): ${err instanceof Error ? err.message.split("\n")[0] : err}`);
+      failed++;
+      continue;
+    }
+    const body = renderMarkdownBody(storageHtml);
+    const issues = checkRoundTrip(storageHtml, conversionOptions(file, storageHtml, body));
+    if (issues.length === 0) {
+      console.log(`[check] Lossless: ${rel}`);
+      continue;
+    }
+    lossy++;
+    console.warn(`[check] ${rel} (page ${meta.pageId}): converting the markdown back makes ${issues.length} change(s):`);
+    for (const line of formatFidelityIssues(issues)) console.warn(`[check]   ${line}`);
+    if (verbose) console.log(`[check]   markdown:\n${body}`);
+  }
+  if (lossy > 0) console.warn(`[check] ${lossy} of ${files.length} page(s) do not survive a round trip`);
+  if (failed > 0) console.error(`[check] ${failed} of ${files.length} page(s) could not be checked`);
+  if (lossy > 0 || failed > 0) process.exitCode = 1;
+}
+
+/**
+ * Differences between a page's storage and what uploading its downloaded
+ * markdown, unedited, would send when every block is converted.
+ */
+export function checkRoundTrip(storageHtml: string, convert: MarkdownToStorageOptions = {}): FidelityIssue[] {
+  const body = renderMarkdownBody(storageHtml);
+  return compareStorage(storageHtml, buildOutgoingStorage(storageHtml, body, convert).html);
+}
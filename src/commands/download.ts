@@ -4,11 +4,14 @@
 
 import fs from "fs";
 import path from "path";
-import { fromEnv } from "../api.js";
+import { ConfluenceClient, fromEnv } from "../api.js";
 import { emitHeader, parseHeader } from "../md-header.js";
-import { storageToMarkdownBlocks, extractHeaderExtrasFromStorage, detectUnsupportedFeatures } from "../storage-dom.js";
-import { emitTag } from "../inline-tags.js";
+import { extractHeaderExtrasFromStorage, detectUnsupportedFeatures, renderMarkdownBody, storageHash } from "../storage-dom.js";
 import { commitFile } from "../git.js";
+import { downloadAttachments, localizeAttachmentRefs } from "../attachments.js";
+import { downloadComments } from "../comments.js";
+import { saveMacroStore } from "../macro-store.js";
+import { saveBlockAnchors } from "../block-anchors.js";
 
 interface Options { cwd: string; args?: string[] }
 
@@ -48,6 +51,15 @@ function sanitizeTitle(title: string): string {
     .substring(0, 100);       // Limit length
 }
 
+/**
+ * Read the value following a flag, e.g. `--tree <url>`.
+ */
+function flagValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  const value = i === -1 ? undefined : args[i + 1];
+  return value && !value.startsWith("--") ? value : undefined;
+}
+
 /**
  * Format a date as YYMMDD.
  * Why: Create compact, sortable date prefixes for downloaded files.
@@ -62,8 +74,32 @@ function formatDatePrefix(date: Date): string {
 export async function downloadAll(opts: Options): Promise<void> {
   const force = opts.args?.includes("--force");
   const verbose = opts.args?.includes("--verbose");
+  const attachments = opts.args?.includes("--attachments") || false;
+  const comments = opts.args?.includes("--comments") || false;
   const client = fromEnv();
   
+  /**
+   * Mode 0: Download a whole page tree
+   * Usage: download --tree <url|pageId> [target-dir]
+   */
+  const treeRoot = flagValue(opts.args || [], "--tree");
+  if (treeRoot) {
+    const rest = (opts.args || []).filter((a, i, all) => !a.startsWith("--") && all[i - 1] !== "--tree");
+    await downloadTree(opts.cwd, treeRoot, { force: force || false, verbose: verbose || false, attachments, comments, client, targetDir: rest[0] });
+    return;
+  }
+
+  /**
+   * Mode 0b: Download a whole space
+   * Usage: download --space <KEY|spaceId> [target-dir]
+   */
+  const spaceKey = flagValue(opts.args || [], "--space");
+  if (spaceKey) {
+    const rest = (opts.args || []).filter((a, i, all) => !a.startsWith("--") && all[i - 1] !== "--space");
+    await downloadSpace(opts.cwd, spaceKey, { force: force || false, verbose: verbose || false, attachments, comments, client, targetDir: rest[0] });
+    return;
+  }
+
   // Extract non-flag arguments (potential URLs or file paths)
   const urlArgs = (opts.args || []).filter((a) => !a.startsWith("--"));
   
@@ -94,6 +130,8 @@ export async function downloadAll(opts: Options): Promise<void> {
         await downloadFromUrl(opts.cwd, firstArg, { 
           force: force || false, 
           verbose: verbose || false, 
+          attachments,
+          comments,
           client,
           customPath: secondArg 
         });
@@ -108,6 +146,8 @@ export async function downloadAll(opts: Options): Promise<void> {
           await downloadFromUrl(opts.cwd, urlOrPageId, { 
             force: force || false, 
             verbose: verbose || false, 
+            attachments,
+            comments,
             client 
           });
         }
@@ -129,7 +169,7 @@ export async function downloadAll(opts: Options): Promise<void> {
 
   for (const [relPath, meta] of entries) {
     const filePath = path.resolve(opts.cwd, relPath);
-    const { storageHtml, title: remoteTitle, spaceId: remoteSpaceId } = await client.getPageStorage(meta.id);
+    const { storageHtml, title: remoteTitle, spaceId: remoteSpaceId, parentId: remoteParentId, version } = await client.getPageStorage(meta.id);
     const adf = await client.getPageAtlasDoc(meta.id);
     const v1 = await client.getPageV1Content(meta.id);
     const extras = extractHeaderExtrasFromStorage(storageHtml, remoteTitle);
@@ -165,29 +205,31 @@ export async function downloadAll(opts: Options): Promise<void> {
     // Check for unsupported features before conversion
     const unsupportedFeatures = detectUnsupportedFeatures(storageHtml);
     
-    const blocks = storageToMarkdownBlocks(storageHtml);
-    // Join blocks and apply a final token decode pass for any durable tokens that might
-    // have survived the per-block decoding (defensive against edge conversions)
-    let body = blocks
-      .map((b) => (b.nodeId ? emitTag({ tagType: "content", nodeId: b.nodeId }) : "") + b.markdown + "\n")
-      .join("\n");
-    body = body
-      .replace(/MD(?:\\)?_CMT_START\(([^)]+)\)/g, (_m, enc) => `<!-- comment:${decodeURIComponent(String(enc || ''))} -->`)
-      .replace(/MD(?:\\)?_CMT_END\(([^)]+)\)/g, (_m, enc) => `<!-- commend-end:${decodeURIComponent(String(enc || ''))} -->`);
+    const savedAttachments = attachments ? await downloadAttachments(client, meta.id, storageHtml, filePath, { verbose }) : [];
+    const commentFile = comments ? await downloadComments(client, meta.id, filePath) : undefined;
+    const body = localizeAttachmentRefs(renderMarkdownBody(storageHtml), filePath);
+    // Original XML of preserved macros, keyed by the hash in their placeholders
+    const macroStore = saveMacroStore(filePath, storageHtml, body);
+    // Fingerprints let upload keep untouched blocks of pages without node ids
+    const anchors = saveBlockAnchors(filePath, storageHtml);
     // Preserve optional header fields (emoji/status/image/readonly) from existing file header if present
     const existingText = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
     const existingHeader = parseHeader(existingText).meta;
     const header = emitHeader({
       readonly: existingHeader.readonly, // preserve READONLY flag if it was set
       pageId: meta.id,
+      parentId: remoteParentId ?? existingHeader.parentId,
       spaceId: meta.spaceId || remoteSpaceId,
       title: meta.title || remoteTitle,
       status: (v1?.metadata?.properties?.status?.value) ?? extras.status ?? existingHeader.status,
+      labels: await client.getPageLabels(meta.id),
+      version,
+      hash: storageHash(storageHtml),
     });
-    const next = header + body.trim() + "\n";
+    const next = header + body;
     fs.mkdirSync(path.dirname(filePath), { recursive: true });
     const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
-    if (!force && existing === next) {
+    if (!force && existing === next && savedAttachments.length === 0 && !macroStore && !anchors && !commentFile) {
       console.log(`[download] No changes for ${relPath}`);
     } else {
       fs.writeFileSync(filePath, next, "utf8");
@@ -208,7 +250,7 @@ export async function downloadAll(opts: Options): Promise<void> {
        * Why: Keep git history in sync with Confluence downloads, making it easy to
        * track what was downloaded and when.
        */
-      await commitFile(opts.cwd, filePath);
+      await commitFile(opts.cwd, filePath, [...savedAttachments, ...[macroStore, anchors, commentFile].filter((f): f is string => !!f)]);
     }
   }
 }
@@ -228,9 +270,9 @@ export async function downloadAll(opts: Options): Promise<void> {
 async function downloadFromUrl(
   cwd: string,
   urlOrPageId: string,
-  opts: { force: boolean; verbose: boolean; client: any; customPath?: string }
+  opts: { force: boolean; verbose: boolean; attachments: boolean; comments: boolean; client: any; customPath?: string }
 ): Promise<void> {
-  const { force, verbose, client, customPath } = opts;
+  const { force, verbose, attachments, comments, client, customPath } = opts;
   
   // Extract pageId from URL or use directly if it's already a pageId
   let pageId: string | null = null;
@@ -256,26 +298,46 @@ async function downloadFromUrl(
     return;
   }
   
-  const { storageHtml, title: remoteTitle, spaceId: remoteSpaceId } = await client.getPageStorage(pageId);
-  const adf = await client.getPageAtlasDoc(pageId);
-  
   // Determine file path: use custom path if provided, otherwise generate from title and date
   let filePath: string;
-  let filename: string;
   
   if (customPath) {
     // Use custom path provided by user
     filePath = path.isAbsolute(customPath) ? customPath : path.resolve(cwd, customPath);
-    filename = path.basename(filePath);
   } else {
     // Generate filename from last modified date and title
     const lastModified = v1.version?.when ? new Date(v1.version.when) : new Date();
     const datePrefix = formatDatePrefix(lastModified);
-    const sanitizedTitle = sanitizeTitle(remoteTitle);
-    filename = `${datePrefix}-${sanitizedTitle}.md`;
-    filePath = path.join(cwd, filename);
+    const sanitizedTitle = sanitizeTitle(String(v1.title || ""));
+    filePath = path.join(cwd, `${datePrefix}-${sanitizedTitle}.md`);
   }
   
+  await writePageFile(cwd, pageId, filePath, { force, verbose, attachments, comments, client, v1 });
+}
+
+/**
+ * Download a single page into the given markdown file.
+ *
+ * Why: URL and tree downloads differ only in where the file goes; the
+ * conversion, header, change detection and commit are shared.
+ *
+ * How: Fetch storage (and ADF and v1 metadata for status/image extras), convert to markdown,
+ * emit the header (preserving READONLY from an existing file), write only when
+ * the content changed (or --force), and commit the file.
+ */
+async function writePageFile(
+  cwd: string,
+  pageId: string,
+  filePath: string,
+  opts: { force: boolean; verbose: boolean; attachments: boolean; comments: boolean; client: ConfluenceClient; v1?: any }
+): Promise<void> {
+  const { force, verbose, attachments, comments, client } = opts;
+  // Tree and space downloads do not pass v1; the status property must match plain downloads
+  const v1 = opts.v1 ?? await client.getPageV1Content(pageId);
+  const displayPath = path.relative(cwd, filePath);
+  const { storageHtml, title: remoteTitle, spaceId: remoteSpaceId, parentId: remoteParentId, version } = await client.getPageStorage(pageId);
+  const adf = await client.getPageAtlasDoc(pageId);
+  
   // Extract additional metadata
   const extras = extractHeaderExtrasFromStorage(storageHtml, remoteTitle);
   if (adf) {
@@ -288,6 +350,8 @@ async function downloadFromUrl(
     } catch {}
   }
   
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
   // Write verbose HTML if requested
   if (verbose) {
     const verbosePath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.confluence`);
@@ -303,13 +367,13 @@ async function downloadFromUrl(
   const unsupportedFeatures = detectUnsupportedFeatures(storageHtml);
   
   // Convert storage HTML to markdown
-  const blocks = storageToMarkdownBlocks(storageHtml);
-  let body = blocks
-    .map((b) => (b.nodeId ? emitTag({ tagType: "content", nodeId: b.nodeId }) : "") + b.markdown + "\n")
-    .join("\n");
-  body = body
-    .replace(/MD(?:\\)?_CMT_START\(([^)]+)\)/g, (_m, enc) => `<!-- comment:${decodeURIComponent(String(enc || ''))} -->`)
-    .replace(/MD(?:\\)?_CMT_END\(([^)]+)\)/g, (_m, enc) => `<!-- commend-end:${decodeURIComponent(String(enc || ''))} -->`);
+  // Referenced attachments go to <name>.assets/; refs to files present there become relative paths
+  const savedAttachments = attachments ? await downloadAttachments(client, pageId, storageHtml, filePath, { verbose }) : [];
+  // Comment threads go to <name>.comments.json, keyed by the marker refs of the body
+  const commentFile = comments ? await downloadComments(client, pageId, filePath) : undefined;
+  const body = localizeAttachmentRefs(renderMarkdownBody(storageHtml), filePath);
+  const macroStore = saveMacroStore(filePath, storageHtml, body);
+  const anchors = saveBlockAnchors(filePath, storageHtml);
   
   // Check if file already exists to preserve READONLY flag
   const existingText = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
@@ -319,20 +383,23 @@ async function downloadFromUrl(
   const header = emitHeader({
     readonly: existingHeader.readonly,
     pageId: pageId,
+    parentId: remoteParentId ?? existingHeader.parentId,
     spaceId: remoteSpaceId,
     title: remoteTitle,
     status: (v1?.metadata?.properties?.status?.value) ?? extras.status ?? existingHeader.status,
+    labels: await client.getPageLabels(pageId),
+    version,
+    hash: storageHash(storageHtml),
   });
   
-  const next = header + body.trim() + "\n";
+  const next = header + body;
   
   // Check if content has changed
-  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
-  if (!force && existing === next) {
-    console.log(`[download] No changes for ${filename}`);
+  if (!force && existingText === next && savedAttachments.length === 0 && !macroStore && !anchors && !commentFile) {
+    console.log(`[download] No changes for ${displayPath}`);
   } else {
     fs.writeFileSync(filePath, next, "utf8");
-    console.log(`[download] Wrote ${filename}`);
+    console.log(`[download] Wrote ${displayPath}`);
     
     /**
      * Display warning if document uses unsupported features.
@@ -345,10 +412,176 @@ async function downloadFromUrl(
     }
     
     // Commit to git
-    await commitFile(cwd, filePath);
+    await commitFile(cwd, filePath, [...savedAttachments, ...[macroStore, anchors, commentFile].filter((f): f is string => !!f)]);
   }
 }
 
+/**
+ * A page and its descendants, used to lay out tree and space downloads.
+ */
+interface PageTreeNode {
+  id: string;
+  title: string;
+  version?: number;
+  position?: number;
+  children: PageTreeNode[];
+}
+
+/**
+ * Download a page and all of its descendants into a mirrored folder structure.
+ *
+ * Why: Documentation often spans dozens of nested pages; pasting every URL by
+ * hand does not scale.
+ *
+ * How: Walk the page tree through the v2 children endpoint, then lay it out
+ * with planTreeFiles and write every page. Pages that already exist locally
+ * keep their current path.
+ *
+ * @param cwd - Current working directory
+ * @param urlOrPageId - Confluence URL or pageId of the tree root
+ * @param opts - Options including force, verbose, client, and optional target directory
+ */
+async function downloadTree(
+  cwd: string,
+  urlOrPageId: string,
+  opts: { force: boolean; verbose: boolean; attachments: boolean; comments: boolean; client: ConfluenceClient; targetDir?: string }
+): Promise<void> {
+  const { client } = opts;
+  const rootId = /^\d+$/.test(urlOrPageId) ? urlOrPageId : extractPageIdFromUrl(urlOrPageId);
+  if (!rootId) {
+    console.error(`[download] Could not extract pageId from: ${urlOrPageId}`);
+    return;
+  }
+  const baseDir = opts.targetDir ? path.resolve(cwd, opts.targetDir) : cwd;
+  const root = await client.getPage(rootId);
+  console.log(`[download] Walking page tree below "${root.title}" (${rootId})...`);
+
+  const fetchNode = async (id: string, title: string): Promise<PageTreeNode> => {
+    const children = (await client.getPageChildren(id)).filter((c) => !c.status || c.status === "current");
+    const node: PageTreeNode = { id, title, children: [] };
+    for (const child of children) node.children.push(await fetchNode(child.id, child.title));
+    return node;
+  };
+  const tree = await fetchNode(rootId, root.title);
+
+  const existing = localFilesByPageId(baseDir);
+  const planned = planTreeFiles([tree], baseDir);
+  for (const { node, filePath: plannedPath } of planned) {
+    const filePath = existing.get(node.id)?.filePath ?? plannedPath;
+    if (opts.verbose) console.log(`[download]   ${path.relative(cwd, filePath)} <- ${node.id}`);
+    await writePageFile(cwd, node.id, filePath, opts);
+  }
+  console.log(`[download] Downloaded ${planned.length} page(s) from tree ${rootId}`);
+}
+
+/**
+ * Download every current page of a space into a mirrored folder structure.
+ *
+ * Why: Teams want a whole space under git for offline search and auditing,
+ * and re-running the download should only fetch what changed.
+ *
+ * How: List all pages of the space (cursor paginated), rebuild the hierarchy
+ * from parentId and lay it out like a tree download. Pages that already exist
+ * locally keep their current path, and pages whose header version equals the
+ * remote version are skipped unless --force is given.
+ *
+ * @param cwd - Current working directory
+ * @param keyOrId - Space key or numeric space id
+ * @param opts - Options including force, verbose, client, and optional target directory
+ */
+async function downloadSpace(
+  cwd: string,
+  keyOrId: string,
+  opts: { force: boolean; verbose: boolean; attachments: boolean; comments: boolean; client: ConfluenceClient; targetDir?: string }
+): Promise<void> {
+  const { client, force } = opts;
+  const space = await client.getSpace(keyOrId);
+  const baseDir = path.resolve(cwd, opts.targetDir || sanitizeTitle(space.key) || space.id);
+  console.log(`[download] Listing pages of space ${space.key} "${space.name}"...`);
+  const pages = (await client.getSpacePages(space.id)).filter((p) => !p.status || p.status === "current");
+
+  // Rebuild the hierarchy; pages whose parent is not a listed page become roots
+  const nodes = new Map<string, PageTreeNode>();
+  for (const p of pages) {
+    nodes.set(p.id, { id: p.id, title: p.title, version: p.version?.number, position: p.position, children: [] });
+  }
+  const roots: PageTreeNode[] = [];
+  for (const p of pages) {
+    const node = nodes.get(p.id)!;
+    const parent = p.parentId && p.parentType !== "whiteboard" ? nodes.get(p.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  const byPosition = (a: PageTreeNode, b: PageTreeNode) => (a.position ?? 0) - (b.position ?? 0);
+  for (const node of nodes.values()) node.children.sort(byPosition);
+  roots.sort(byPosition);
+
+  const existing = localFilesByPageId(baseDir);
+
+  let written = 0;
+  let skipped = 0;
+  for (const { node, filePath: plannedPath } of planTreeFiles(roots, baseDir)) {
+    const local = existing.get(node.id);
+    const filePath = local?.filePath ?? plannedPath;
+    if (!force && local && local.version !== undefined && local.version === node.version) {
+      if (opts.verbose) console.log(`[download]   Unchanged (v${node.version}): ${path.relative(cwd, filePath)}`);
+      skipped++;
+      continue;
+    }
+    if (opts.verbose) console.log(`[download]   ${path.relative(cwd, filePath)} <- ${node.id}`);
+    await writePageFile(cwd, node.id, filePath, opts);
+    written++;
+  }
+  console.log(`[download] Space ${space.key}: ${written} page(s) downloaded, ${skipped} unchanged`);
+}
+
+/**
+ * Existing local files by pageId, so renamed or moved files (and pages that
+ * gained children since) are updated in place instead of duplicated.
+ */
+function localFilesByPageId(baseDir: string): Map<string, { filePath: string; version?: number }> {
+  const existing = new Map<string, { filePath: string; version?: number }>();
+  for (const file of walkMarkdown(baseDir)) {
+    const { meta } = parseHeader(fs.readFileSync(file, "utf8"));
+    if (meta.pageId && !existing.has(meta.pageId)) existing.set(meta.pageId, { filePath: file, version: meta.version });
+  }
+  return existing;
+}
+
+/**
+ * Assign a file path to every page of a tree.
+ *
+ * How: A page with children becomes `<Title>/index.md` and its children are
+ * placed inside that folder; a leaf page becomes `<Title>.md`. Sibling title
+ * collisions get the pageId appended. Parents come before their children.
+ */
+function planTreeFiles(
+  nodes: PageTreeNode[],
+  dir: string,
+  usedNames: Set<string> = new Set()
+): { node: PageTreeNode; filePath: string }[] {
+  const out: { node: PageTreeNode; filePath: string }[] = [];
+  for (const node of nodes) {
+    const name = uniqueName(sanitizeTitle(node.title) || node.id, node.id, usedNames);
+    if (node.children.length === 0) {
+      out.push({ node, filePath: path.join(dir, `${name}.md`) });
+      continue;
+    }
+    out.push({ node, filePath: path.join(dir, name, "index.md") });
+    out.push(...planTreeFiles(node.children, path.join(dir, name), new Set(["index"])));
+  }
+  return out;
+}
+
+/**
+ * Pick a file/folder name that is unique among siblings.
+ */
+function uniqueName(base: string, pageId: string, used: Set<string>): string {
+  const name = used.has(base.toLowerCase()) ? `${base}-${pageId}` : base;
+  used.add(name.toLowerCase());
+  return name;
+}
+
 function walkMarkdown(dir: string): string[] {
   if (!fs.existsSync(dir)) return [];
   const out: string[] = [];
@@ -27,7 +27,7 @@ function renderEnvTemplate(): string {
     "CONFLUENCE_EMAIL=",
     "CONFLUENCE_API_TOKEN=",
     "",
-    "# Jira API (optional, only needed for `task` command)",
+    "# Jira API (optional, only needed for `task` command and Jira macros)",
     "# Base URL example: https://your-domain.atlassian.net",
     "JIRA_BASE_URL=",
     "JIRA_PROJECT_KEY=",
@@ -44,6 +44,11 @@ function renderEnvTemplate(): string {
     "# Comma-separated component names",
     "# JIRA_COMPONENTS=Documentation",
     "",
+    "# Jira application link used for Jira macros created on upload (optional;",
+    "# pages that already contain a Jira macro reuse its server)",
+    "# JIRA_SERVER=System JIRA",
+    "# JIRA_SERVER_ID=",
+    "",
     "# Enable macOS GUI prompts for `task` (optional)",
     "# JIRA_GUI=1",
     "",
@@ -164,6 +169,8 @@ function createOrUpdateEnv(opts: Options): void {
     "JIRA_PRIORITY",
     "JIRA_LABELS",
     "JIRA_COMPONENTS",
+    "JIRA_SERVER",
+    "JIRA_SERVER_ID",
     "JIRA_GUI",
   ];
 
@@ -190,6 +197,8 @@ function createOrUpdateEnv(opts: Options): void {
   maybeAdd("JIRA_PRIORITY");
   maybeAdd("JIRA_LABELS");
   maybeAdd("JIRA_COMPONENTS");
+  maybeAdd("JIRA_SERVER");
+  maybeAdd("JIRA_SERVER_ID");
   maybeAdd("JIRA_GUI");
 
   if (appendixLines.length > missingBefore) {
@@ -0,0 +1,123 @@
+/**
+ * Prune command: trash or archive the pages of deleted markdown files.
+ *
+ * Why: Deleting a tracked file had no effect in Confluence, so a doc cleanup
+ * could not be done as a reviewed git change; the pages lived on remotely.
+ *
+ * How: Deleted markdown files come from `git status`; their pageId is read
+ * from the last committed version of the file. Pages still tracked by another
+ * file (a file moved without `git mv`) and READONLY files are left alone.
+ * After a confirmation listing the page titles, the pages are moved to the
+ * trash (or archived with `--archive`) and the deletion is committed together
+ * with the file's sidecars.
+ */
+
+import fs from "fs";
+import path from "path";
+import enquirer from "enquirer";
+import { fromEnv } from "../api.js";
+import { commitFile, getLastSyncedContent, listDeletedMarkdownFiles } from "../git.js";
+import { HeaderMeta, parseHeader } from "../md-header.js";
+import { hasRemoteChanged, sidecarPaths, walkMarkdown } from "./upload.js";
+
+const { prompt } = enquirer;
+
+interface Options { cwd: string; args?: string[] }
+
+interface DeletedPage {
+  file: string; // absolute path of the deleted markdown file
+  meta: HeaderMeta; // header of its last committed version
+}
+
+export async function pruneAll(opts: Options): Promise<void> {
+  const { args = [] } = opts;
+  const dryRun = args.includes("--dry-run");
+  const archive = args.includes("--archive");
+  const yes = args.includes("--yes");
+  const action = archive ? "archive" : "trash";
+
+  const deleted = await findDeletedPages(opts.cwd);
+  if (deleted.length === 0) { console.log("[prune] No deleted files with a pageId"); return; }
+
+  const client = fromEnv();
+  const pages: (DeletedPage & { title: string })[] = [];
+  for (const page of deleted) {
+    const rel = path.relative(opts.cwd, page.file);
+    try {
+      const { title, version, storageHtml } = await client.getPageStorage(page.meta.pageId!);
+      const changed = hasRemoteChanged(page.meta, version, storageHtml) ? " - changed in Confluence since last sync" : "";
+      console.log(`[prune] ${dryRun ? `Would ${action}` : action}: "${title}" (page ${page.meta.pageId}, ${rel})${changed}`);
+      pages.push({ ...page, title });
+    } catch (err) {
+      console.warn(`[prune] Skip ${rel}: page ${page.meta.pageId} not found (${err instanceof Error ? err.message.split("\n")[0] : err})`);
+    }
+  }
+  if (pages.length === 0 || dryRun) return;
+  if (!yes && !(await confirmPrune(pages.length, action))) { console.log("[prune] Nothing changed"); return; }
+
+  const done: DeletedPage[] = [];
+  if (archive) {
+    try {
+      await client.archivePages(pages.map((p) => p.meta.pageId!));
+      console.log(`[prune] Archiving ${pages.length} page(s)`);
+      done.push(...pages);
+    } catch (err) {
+      console.error(`[prune] ${err instanceof Error ? err.message : err}`);
+      process.exitCode = 1;
+    }
+  } else {
+    for (const page of pages) {
+      try {
+        await client.trashPage(page.meta.pageId!);
+        console.log(`[prune] Trashed "${page.title}" (page ${page.meta.pageId})`);
+        done.push(page);
+      } catch (err) {
+        console.error(`[prune] ${err instanceof Error ? err.message : err}`);
+        process.exitCode = 1;
+      }
+    }
+  }
+
+  // The deletion goes into git history like an upload; sidecars go with it
+  for (const page of done) {
+    const sidecars = sidecarPaths(page.file);
+    for (const f of sidecars) fs.rmSync(f, { force: true });
+    await commitFile(opts.cwd, page.file, sidecars);
+  }
+}
+
+/**
+ * Deleted markdown files whose last committed version tracks a page that no
+ * other file tracks.
+ */
+export async function findDeletedPages(cwd: string): Promise<DeletedPage[]> {
+  const tracked = new Set(walkMarkdown(cwd, true).map((f) => parseHeader(fs.readFileSync(f, "utf8")).meta.pageId));
+  const out: DeletedPage[] = [];
+  for (const rel of await listDeletedMarkdownFiles(cwd)) {
+    const file = path.resolve(cwd, rel);
+    const content = await getLastSyncedContent(cwd, file);
+    if (content === undefined) continue;
+    const { meta } = parseHeader(content);
+    if (!meta.pageId || meta.readonly || tracked.has(meta.pageId)) continue;
+    out.push({ file, meta });
+  }
+  return out;
+}
+
+async function confirmPrune(count: number, action: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    console.error(`[prune] Not a terminal. Pass --yes to ${action} the pages above.`);
+    return false;
+  }
+  try {
+    const { ok } = await prompt<{ ok: boolean }>({
+      type: "confirm",
+      name: "ok",
+      message: `${action === "archive" ? "Archive" : "Move"} ${count} page(s)${action === "archive" ? "" : " to the trash"}?`,
+      initial: false,
+    } as any);
+    return ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Sync command: three-way merge remote page changes with local markdown edits.
+ *
+ * Why: Pages are edited both in the browser and locally. Downloading would
+ * discard local edits and uploading would discard remote edits, so sync merges
+ * both sides against the last-synced version recorded in git.
+ *
+ * How: For each tracked file, convert the current remote storage to markdown,
+ * merge it with the local body using the last-synced git version as base, and
+ * write the result. Clean merges that contain local changes are uploaded;
+ * conflicts are left in the file as git-style conflict markers.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fromEnv } from "../api.js";
+import { emitHeader, parseHeader } from "../md-header.js";
+import { commitFile, getLastSyncedContent, hasConflictMarkers, mergeText } from "../git.js";
+import { renderMarkdownBody, storageHash } from "../storage-dom.js";
+import { localizeAttachmentRefs } from "../attachments.js";
+import { saveMacroStore } from "../macro-store.js";
+import { saveBlockAnchors } from "../block-anchors.js";
+import { hasRemoteChanged, uploadAll, walkMarkdown } from "./upload.js";
+
+interface Options { cwd: string; args?: string[] }
+
+export async function syncAll(opts: Options): Promise<void> {
+  const { args = [] } = opts;
+  const verbose = args.includes("--verbose");
+  const force = args.includes("--force");
+  const client = fromEnv();
+
+  // Explicit paths narrow the sync; otherwise every tracked page is synced
+  const explicitPaths = args.filter((a) => !a.startsWith("--"));
+  const files = explicitPaths.length > 0
+    ? explicitPaths.map((p) => {
+        const abs = path.isAbsolute(p) ? p : path.resolve(opts.cwd, p);
+        if (!fs.existsSync(abs)) throw new Error(`File not found: ${p}`);
+        return abs;
+      })
+    : walkMarkdown(opts.cwd).filter((f) => !!parseHeader(fs.readFileSync(f, "utf8")).meta.pageId);
+
+  if (files.length === 0) { console.log("[sync] No tracked files (files with pageId)"); return; }
+
+  let conflicted = 0;
+  for (const file of files) {
+    const rel = path.relative(opts.cwd, file);
+    const text = fs.readFileSync(file, "utf8");
+    const { meta, body } = parseHeader(text);
+    if (!meta.pageId) { console.log(`[sync] Skip (no pageId): ${rel}`); continue; }
+    if (hasConflictMarkers(body)) {
+      console.warn(`[sync] Skip (unresolved conflict markers): ${rel}`);
+      conflicted++;
+      continue;
+    }
+
+    const { storageHtml, version } = await client.getPageStorage(meta.pageId);
+    // The merge result is based on this exact remote state, so record it in the header;
+    // otherwise the upload's concurrency check would reject the merged file.
+    const header = emitHeader({ ...meta, version, hash: storageHash(storageHtml) });
+    const local = normalizeBody(body);
+    const remote = localizeAttachmentRefs(renderMarkdownBody(storageHtml), file);
+    // Whichever side wins, the macros its placeholders reference must stay available
+    const macroStore = saveMacroStore(file, storageHtml, local + remote);
+    // The body is rendered from this storage whichever side wins a merge
+    const anchors = saveBlockAnchors(file, storageHtml);
+    const companions = [macroStore, anchors].filter((f): f is string => !!f);
+    const baseText = await getLastSyncedContent(opts.cwd, file);
+    let base = baseText === undefined ? undefined : normalizeBody(parseHeader(baseText).body);
+    let baseSource = base === undefined ? "(none)" : "last sync";
+    // Files without history (gitignored, NO_AUTO_COMMIT): the page as of the header version is the common ancestor
+    if (base === undefined && meta.version !== undefined) {
+      const old = await client.getPageStorageAtVersion(meta.pageId, meta.version);
+      if (old !== undefined && (!meta.hash || meta.hash === storageHash(old))) {
+        base = localizeAttachmentRefs(renderMarkdownBody(old), file);
+        baseSource = `remote v${meta.version}`;
+      }
+    }
+    // The header records the remote state the local body already contains (also after a conflicted merge)
+    const remoteUnchanged = meta.version !== undefined && !hasRemoteChanged(meta, version, storageHtml);
+
+    if (verbose) {
+      console.log(`[sync] ${rel}: pageId=${meta.pageId} base=${baseSource} remote=${remoteUnchanged ? "unchanged" : "changed"}`);
+    }
+
+    const action = decideSync({ local, remote, base, readonly: meta.readonly, remoteUnchanged, force });
+
+    if (action === "skip") {
+      console.warn(`[sync] Skip (READONLY file with local changes; --force discards them): ${rel}`);
+      continue;
+    }
+
+    if (action === "up-to-date") {
+      if (meta.version !== version) {
+        fs.writeFileSync(file, header + local, "utf8");
+        await commitFile(opts.cwd, file, companions);
+      }
+      console.log(`[sync] Up to date: ${rel}`);
+      continue;
+    }
+
+    if (action === "pull") {
+      fs.writeFileSync(file, header + remote, "utf8");
+      // READONLY files never upload, so the remote version always wins
+      console.log(`[sync] Pulled remote changes${meta.readonly ? " (READONLY)" : ""}: ${rel}`);
+      await commitFile(opts.cwd, file, companions);
+      continue;
+    }
+
+    if (action === "push") {
+      fs.writeFileSync(file, header + local, "utf8");
+      console.log(`[sync] Only local changes, uploading: ${rel}`);
+      await uploadAll({ cwd: opts.cwd, args: [file, ...(verbose ? ["--verbose"] : [])] });
+      continue;
+    }
+
+    // Without a common ancestor an empty base turns every difference into a conflict
+    const { merged, conflicts } = await mergeText(opts.cwd, { local, base: base ?? "", remote });
+    fs.writeFileSync(file, header + merged, "utf8");
+    if (conflicts > 0) {
+      conflicted++;
+      console.warn(`[sync] ${conflicts} conflict(s) in ${rel}. Resolve the markers, then run sync again.`);
+      continue;
+    }
+    console.log(`[sync] Merged local and remote changes: ${rel}`);
+    await uploadAll({ cwd: opts.cwd, args: [file, ...(verbose ? ["--verbose"] : [])] });
+  }
+
+  if (conflicted > 0) {
+    console.warn(`[sync] ${conflicted} file(s) need manual conflict resolution; nothing was uploaded for them.`);
+  }
+}
+
+export type SyncAction = "up-to-date" | "pull" | "push" | "merge" | "skip";
+
+/**
+ * Decide how to reconcile a local body with the remote one.
+ *
+ * - pull: only the remote changed (or the file is READONLY)
+ * - skip: a READONLY file has local changes that pulling would discard (unless forced)
+ * - push: only the local file changed, known from the base or from the header
+ *   recording the current remote state (e.g. after resolving a conflicted merge)
+ * - merge: both changed, or there is no way to tell
+ */
+export function decideSync(s: { local: string; remote: string; base?: string; readonly?: boolean; remoteUnchanged: boolean; force?: boolean }): SyncAction {
+  if (s.local === s.remote) return "up-to-date";
+  if (s.readonly) {
+    // Without a base, a header matching the remote means the difference is local
+    const localChanged = s.base !== undefined ? s.local !== s.base : s.remoteUnchanged;
+    return localChanged && !s.force ? "skip" : "pull";
+  }
+  if (s.base !== undefined && s.local === s.base) return "pull";
+  if (s.remoteUnchanged || (s.base !== undefined && s.remote === s.base)) return "push";
+  return "merge";
+}
+
+/**
+ * Normalize a markdown body the same way download does (trimmed, single
+ * trailing newline) so equal content compares equal.
+ */
+function normalizeBody(body: string): string {
+  return body.trim() + "\n";
+}
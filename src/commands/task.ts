@@ -2,38 +2,19 @@
  * Jira Task command: prompt for title/content and create a Jira issue.
  *
  * Why: Provide a quick workflow to create tasks without leaving the terminal.
- * How: Reads Jira config from environment (.env), prompts via enquirer, calls
- * Jira Cloud REST API v3 to create the issue, then optionally assigns to self.
+ * How: Reads Jira config from environment (.env, via jira-config.ts), prompts
+ * via enquirer, calls Jira Cloud REST API v3 to create the issue, then
+ * optionally assigns to self.
  */
 
 import { prompt } from "enquirer";
 import readline from "readline";
 import { execFile, spawn } from "node:child_process";
 import os from "node:os";
+import { jiraAuthHeaders, readJiraConfig } from "../jira-config.js";
 
 interface Options { cwd: string }
 
-/**
- * Build the authorization headers for Jira Cloud using either Basic auth
- * (email + API token) or a bearer access token.
- */
-function buildAuthHeaders(): Record<string, string> {
-  const accessToken = process.env.JIRA_ACCESS_TOKEN;
-  const email = process.env.JIRA_EMAIL;
-  const apiToken = process.env.JIRA_API_TOKEN;
-
-  if (accessToken) {
-    return { Authorization: `Bearer ${accessToken}` };
-  }
-  if (email && apiToken) {
-    const basic = Buffer.from(`${email}:${apiToken}`).toString("base64");
-    return { Authorization: `Basic ${basic}` };
-  }
-  throw new Error(
-    "Jira auth not configured. Set JIRA_ACCESS_TOKEN or JIRA_EMAIL and JIRA_API_TOKEN"
-  );
-}
-
 /**
  * Execute a short AppleScript one-liner with `osascript` and return stdout.
  *
@@ -247,8 +228,7 @@ async function readMultiline(promptLabel: string): Promise<string> {
  *  - JIRA_COMPONENTS (optional, comma-separated component names)
  */
 export async function createTask(opts: Options): Promise<void> {
-  const baseUrl = process.env.JIRA_BASE_URL || "";
-  const projectKey = process.env.JIRA_PROJECT_KEY || "";
+  const { baseUrl, projectKey } = readJiraConfig();
   if (!baseUrl) throw new Error("JIRA_BASE_URL must be set in .env");
   if (!projectKey) throw new Error("JIRA_PROJECT_KEY must be set in .env");
 
@@ -286,7 +266,7 @@ export async function createTask(opts: Options): Promise<void> {
     content = await readMultiline("Task content (Enter for newline, Ctrl+D to submit):\n");
   }
 
-  const headers = buildAuthHeaders();
+  const headers = jiraAuthHeaders();
 
   const labels = (process.env.JIRA_LABELS || "")
     .split(",")
@@ -4,11 +4,18 @@
 
 import fs from "fs";
 import path from "path";
-import { fromEnv } from "../api.js";
-import { parseHeader } from "../md-header.js";
+import { ConfluenceClient, fromEnv } from "../api.js";
+import { HeaderMeta, emitHeader, ensureHeader, parseHeader } from "../md-header.js";
 import { parseBlocks } from "../inline-tags.js";
-import { listChangedMarkdownFiles, commitFile } from "../git.js";
-import { markdownToStorageHtml, replaceNodesById } from "../storage-dom.js";
+import { listChangedMarkdownFiles, listRenamedMarkdownFiles, commitFile, hasConflictMarkers } from "../git.js";
+import { MarkdownToStorageOptions, extractEmoticons, macroPlaceholderIds, markdownToStorageHtml, replaceNodesById, storageHash } from "../storage-dom.js";
+import { diffStorage, formatStorageDiff } from "../storage-diff.js";
+import { locateStorageIssues, validateStorage } from "../storage-validate.js";
+import { resolveLocalAttachments, syncAttachments } from "../attachments.js";
+import { commentsPathFor, postCommentActions } from "../comments.js";
+import { loadMacroStore, macroStorePath, saveMacroStore } from "../macro-store.js";
+import { AnchoredStorage, BlockAnchor, applyBlockAnchors, blockAnchorsPath, loadBlockAnchors, saveBlockAnchors } from "../block-anchors.js";
+import { jiraMacroServer } from "../jira-config.js";
 import enquirer from "enquirer";
 
 const { prompt } = enquirer;
@@ -19,6 +26,8 @@ export async function uploadAll(opts: Options): Promise<void> {
   const { args = [] } = opts;
   const all = args.includes("--all");
   const verbose = args.includes("--verbose");
+  const force = args.includes("--force");
+  const dryRun = args.includes("--dry-run");
   const client = fromEnv();
 
   /**
@@ -47,19 +56,19 @@ export async function uploadAll(opts: Options): Promise<void> {
     });
   } else {
     // Mode 3: ALWAYS show interactive menu for file selection
-    // Include ALL markdown files with pageId, even those in gitignore, but exclude READONLY
+    // Include ALL markdown files with pageId (or new pages with parentId/spaceId), even those in gitignore, but exclude READONLY
     const allMd = walkMarkdown(opts.cwd, true); // true = include gitignored files
     const candidates = allMd.filter((f) => {
       try {
         const txt = fs.readFileSync(f, "utf8");
         const { meta } = parseHeader(txt);
-        // Include files with pageId that are NOT readonly
-        return !!meta.pageId && !meta.readonly;
+        // Include existing or new pages that are NOT readonly
+        return (!!meta.pageId || isNewPage(meta)) && !meta.readonly;
       } catch { return false; }
     });
 
     if (candidates.length === 0) {
-      console.log("[upload] No candidate files found (files with pageId and not READONLY)");
+      console.log("[upload] No candidate files found (files with pageId, parentId or spaceId and not READONLY)");
       return;
     }
 
@@ -99,14 +108,50 @@ export async function uploadAll(opts: Options): Promise<void> {
   }
   if (files.length === 0) { console.log("[upload] No candidate files"); return; }
 
+  // Files moved with `git mv` (staged renames), by their new path
+  const renames = new Map((await listRenamedMarkdownFiles(opts.cwd).catch(() => []))
+    .map((r) => [path.resolve(opts.cwd, r.to), path.resolve(opts.cwd, r.from)]));
+
   for (const file of files) {
     const md = fs.readFileSync(file, "utf8");
     const { meta, body } = parseHeader(md);
-    if (!meta.pageId) { console.log(`[upload] Skip (no pageId): ${file}`); continue; }
     // Skip files marked as READONLY - they can be downloaded but never uploaded
     if (meta.readonly) { console.log(`[upload] Skip (READONLY): ${path.relative(opts.cwd, file)}`); continue; }
+    // A conflicted sync records the remote version in the header, so the concurrency check would let the markers through
+    if (hasConflictMarkers(body)) {
+      console.warn(`[upload] Skip (unresolved conflict markers): ${path.relative(opts.cwd, file)}`);
+      continue;
+    }
+    if (!meta.pageId && isNewPage(meta)) {
+      await createPageFromFile(client, opts.cwd, file, md, { dryRun, verbose, force });
+      continue;
+    }
+    if (!meta.pageId) { console.log(`[upload] Skip (no pageId): ${file}`); continue; }
+
+    const renamedFrom = renames.get(file);
+    // The sidecars of a renamed file move along once it is uploaded; until then they are read from the old path
+    const sidecarFile = renamedFrom && sidecarPaths(file).every((f) => !fs.existsSync(f)) ? renamedFrom : file;
+    const { storageHtml, version, title, spaceId, parentId } = await client.getPageStorage(meta.pageId);
 
-    const { storageHtml, version, title, spaceId } = await client.getPageStorage(meta.pageId);
+    /**
+     * Optimistic concurrency check: refuse to overwrite remote edits made after
+     * the version recorded in the header, unless --force is given.
+     * Files without a recorded version (downloaded by older releases) are not checked.
+     */
+    if (!force && hasRemoteChanged(meta, version, storageHtml)) {
+      const rel = path.relative(opts.cwd, file);
+      if (dryRun) {
+        console.warn(`[upload] Remote page changed since last sync (local v${meta.version}, remote v${version}): ${rel}`);
+      } else {
+        const action = await resolveRemoteChange(rel, meta.version!, version);
+        if (action === "merge") {
+          const { syncAll } = await import("./sync.js");
+          await syncAll({ cwd: opts.cwd, args: [file, ...(verbose ? ["--verbose"] : [])] });
+          continue;
+        }
+        if (action === "skip") continue;
+      }
+    }
     // Header does not support emoji; keep param reserved for future parity with download extras
     const effectiveTitle = buildEffectiveTitle(meta.title || title, undefined, meta.status);
     const blocks = parseBlocks(body);
@@ -123,76 +168,409 @@ export async function uploadAll(opts: Options): Promise<void> {
       console.log(`[upload]   blocks=${blocks.length}`);
     }
 
-    // Build replacements for blocks that have nodeId tags (upload only those)
-    const replacements: Record<string, string> = {};
-    for (const b of blocks) {
-      if (!b.tag?.nodeId) continue;
-      const html = markdownToStorageHtml(b.text);
-      if (html.trim()) replacements[b.tag.nodeId] = html;
+    // Local images and files become page attachments
+    const local = resolveLocalAttachments(body, file);
+    const convert = conversionOptions(sidecarFile, storageHtml, local.body);
+    const outgoing = buildOutgoingStorage(storageHtml, local.body, convert, loadBlockAnchors(sidecarFile));
+    const valid = checkOutgoingStorage(path.relative(opts.cwd, file), outgoing.html, local.body, lineOffset(md, body), convert, { liveStorage: storageHtml, force });
+    if (outgoing.missing.length > 0) {
+      console.warn(`[upload] Missing nodeIds on page ${meta.pageId}: ${outgoing.missing.join(", ")}. Falling back to full update.`);
     }
-
-    if (Object.keys(replacements).length > 0) {
-      if (verbose) {
-        /**
-         * When partial update is possible, show which nodeIds will be replaced.
-         * Why: Helps detect mismatches between local tags and remote document nodes.
-         */
-        const keys = Object.keys(replacements);
-        console.log(`[upload]   partial update: nodeIds=${keys.join(", ")}`);
+    if (verbose) {
+      /**
+       * When partial update is possible, show which nodeIds will be replaced.
+       * Why: Helps detect mismatches between local tags and remote document nodes.
+       */
+      if (outgoing.mode === "partial") console.log(`[upload]   partial update: nodeIds=${outgoing.nodeIds.join(", ")}`);
+      else if (outgoing.anchored) {
+        const { kept, converted, removed } = outgoing.anchored;
+        console.log(`[upload]   anchored update: ${kept} node(s) kept, ${converted} block(s) converted, ${removed} node(s) removed`);
       }
-      const { html, missing } = replaceNodesById(storageHtml, replacements);
-      if (missing.length > 0) {
-        console.warn(`[upload] Missing nodeIds on page ${meta.pageId}: ${missing.join(", ")}. Falling back to full update.`);
-        const fullHtml = markdownToStorageHtml(body);
-        if (verbose) {
-          const verbosePath = path.join(path.dirname(file), `.${path.basename(file)}.upload.confluence`);
-          try {
-            fs.writeFileSync(verbosePath, fullHtml, "utf8");
-            console.log(`[upload]   wrote verbose outgoing HTML -> ${path.relative(opts.cwd, verbosePath)}`);
-          } catch (err) {
-            // eslint-disable-next-line no-console
-            console.warn(`[upload] Failed to write verbose file: ${path.relative(opts.cwd, verbosePath)}:`, err);
-          }
-        }
-        await client.updatePageStorage(meta.pageId, fullHtml, version, effectiveTitle, meta.spaceId || spaceId);
-      } else {
-        if (verbose) {
-          const verbosePath = path.join(path.dirname(file), `.${path.basename(file)}.upload.confluence`);
-          try {
-            fs.writeFileSync(verbosePath, html, "utf8");
-            console.log(`[upload]   wrote verbose outgoing HTML -> ${path.relative(opts.cwd, verbosePath)}`);
-          } catch (err) {
-            // eslint-disable-next-line no-console
-            console.warn(`[upload] Failed to write verbose file: ${path.relative(opts.cwd, verbosePath)}:`, err);
-          }
-        }
-        await client.updatePageStorage(meta.pageId, html, version, effectiveTitle, meta.spaceId || spaceId);
+      else if (outgoing.nodeIds.length === 0) console.log("[upload]   no tags detected -> full page update");
+      const verbosePath = path.join(path.dirname(file), `.${path.basename(file)}.upload.confluence`);
+      try {
+        fs.writeFileSync(verbosePath, outgoing.html, "utf8");
+        console.log(`[upload]   wrote verbose outgoing HTML -> ${path.relative(opts.cwd, verbosePath)}`);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[upload] Failed to write verbose file: ${path.relative(opts.cwd, verbosePath)}:`, err);
       }
-    } else {
-      // No tags -> full page replacement
-      const fullHtml = markdownToStorageHtml(body);
-      if (verbose) {
-        console.log("[upload]   no tags detected -> full page update");
-        const verbosePath = path.join(path.dirname(file), `.${path.basename(file)}.upload.confluence`);
-        try {
-          fs.writeFileSync(verbosePath, fullHtml, "utf8");
-          console.log(`[upload]   wrote verbose outgoing HTML -> ${path.relative(opts.cwd, verbosePath)}`);
-        } catch (err) {
-          // eslint-disable-next-line no-console
-          console.warn(`[upload] Failed to write verbose file: ${path.relative(opts.cwd, verbosePath)}:`, err);
-        }
+    }
+
+    if (dryRun) {
+      /**
+       * Preview only: show what the upload would change on the live page.
+       * Why: Reviewers want to see the effect of an (AI-)edited file before it goes live.
+       */
+      const rel = path.relative(opts.cwd, file);
+      console.log(`[upload] Dry run for ${rel} (page ${meta.pageId}, ${outgoing.mode} update):`);
+      await syncAttachments(client, meta.pageId, local.attachments, { dryRun, verbose });
+      for (const line of formatStorageDiff(diffStorage(storageHtml, outgoing.html))) {
+        console.log(`[upload]   ${line}`);
       }
-      await client.updatePageStorage(meta.pageId, fullHtml, version, effectiveTitle, meta.spaceId || spaceId);
+      await syncLabels(client, meta.pageId, meta.labels, { dryRun });
+      if (renamedFrom) await moveRenamedPage(client, meta.pageId, file, meta, parentId, { dryRun });
+      await postCommentActions(client, meta.pageId, sidecarFile, { dryRun });
+      continue;
     }
+
+    if (!valid) continue;
+    // Sidecars follow the file, so its fingerprints and comments still apply
+    const carried = renamedFrom ? carrySidecars(renamedFrom, file) : [];
+    // Attachments go first so the updated body never references missing files
+    await syncAttachments(client, meta.pageId, local.attachments, { verbose });
+    await client.updatePageStorage(meta.pageId, outgoing.html, version, effectiveTitle, meta.spaceId || spaceId);
     console.log(`[upload] Updated page ${meta.pageId} from ${path.relative(opts.cwd, file)}`);
+    await syncLabels(client, meta.pageId, meta.labels, { verbose });
+    const movedTo = renamedFrom ? await moveRenamedPage(client, meta.pageId, file, meta, parentId) : undefined;
+
+    // Record the new remote state so the next upload can detect concurrent edits
+    const uploaded = await client.getPageStorage(meta.pageId);
+    const nextMeta = { ...meta, parentId: movedTo ?? meta.parentId, version: uploaded.version, hash: storageHash(uploaded.storageHtml) };
+    fs.writeFileSync(file, ensureHeader(md, nextMeta), "utf8");
+    const macroStore = saveMacroStore(file, uploaded.storageHtml, body);
+    const anchors = saveBlockAnchors(file, uploaded.storageHtml);
+    // Replies and resolutions from the comment file go out once the body is live
+    const commentFile = await postCommentActions(client, meta.pageId, file);
     
     /**
      * Automatically commit the uploaded file to git for version tracking.
      * Why: Keeps git history in sync with Confluence updates, making it easy to
      * track what was uploaded and when.
-     * How: Stage and commit only this specific file with a standardized message.
+     * How: Stage and commit only this specific file (and its macro store) with a standardized message.
      */
-    await commitFile(opts.cwd, file);
+    await commitFile(opts.cwd, file, [...carried, macroStore, anchors, commentFile].filter((f): f is string => !!f));
+  }
+}
+
+/**
+ * Parent page implied by a file's place in a downloaded tree: a folder's
+ * `index.md` holds the folder's page, so the parent of a file is the
+ * `index.md` next to it, and the parent of an `index.md` the one a folder up.
+ *
+ * @returns the parent's pageId, or undefined when there is no tracked parent page
+ */
+export function treeParentId(file: string): string | undefined {
+  const dir = path.dirname(file);
+  const parentIndex = path.basename(file) === "index.md"
+    ? path.join(path.dirname(dir), "index.md")
+    : path.join(dir, "index.md");
+  if (!fs.existsSync(parentIndex)) return undefined;
+  return parseHeader(fs.readFileSync(parentIndex, "utf8")).meta.pageId || undefined;
+}
+
+/**
+ * Move the page of a renamed file below the parent of its new place.
+ * Why: Moving a file into another folder with `git mv` should move the page
+ * in Confluence, too. Outside a tree the header's `parentId` is the target.
+ * The page becomes the last child of its new parent.
+ *
+ * @returns the new parent when the page was moved, otherwise undefined
+ */
+export async function moveRenamedPage(
+  client: ConfluenceClient,
+  pageId: string,
+  file: string,
+  meta: HeaderMeta,
+  remoteParentId: string | undefined,
+  opts: { dryRun?: boolean } = {}
+): Promise<string | undefined> {
+  const target = treeParentId(file) ?? meta.parentId;
+  if (!target || target === remoteParentId || target === pageId) return undefined;
+  if (opts.dryRun) {
+    console.log(`[upload]   would move below page ${target}${remoteParentId ? ` (now below ${remoteParentId})` : ""}`);
+    return undefined;
+  }
+  await client.movePage(pageId, target);
+  console.log(`[upload]   moved below page ${target}`);
+  return target;
+}
+
+/**
+ * Sidecar files kept next to a markdown file: macro store, block
+ * fingerprints and comments.
+ */
+export function sidecarPaths(mdFile: string): string[] {
+  return [macroStorePath(mdFile), blockAnchorsPath(mdFile), commentsPathFor(mdFile)];
+}
+
+/**
+ * Move the sidecar files of a renamed markdown file along with it.
+ *
+ * @returns the old and new sidecar paths, for committing the move
+ */
+function carrySidecars(from: string, to: string): string[] {
+  const out: string[] = [];
+  const targets = sidecarPaths(to);
+  for (const [i, source] of sidecarPaths(from).entries()) {
+    const target = targets[i]!;
+    if (fs.existsSync(source) && !fs.existsSync(target)) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.renameSync(source, target);
+    }
+    out.push(source, target);
+  }
+  return out;
+}
+
+/**
+ * Take a new page's title from a `# Heading` on the first non-blank line and
+ * remove it from the body. Later `#` lines are left alone: they may be
+ * comments inside a code block.
+ */
+export function splitTitleHeading(body: string): { title?: string; body: string } {
+  const h1 = body.match(/^\s*#[ \t]+(.+?)[ \t#]*(?:\n|$)/);
+  if (!h1) return { body };
+  return { title: h1[1]!.trim(), body: body.slice(h1[0].length).replace(/^\s*\n/, "") };
+}
+
+/**
+ * Whether a file describes a page that does not exist in Confluence yet.
+ */
+function isNewPage(meta: HeaderMeta): boolean {
+  return !meta.pageId && (!!meta.parentId || !!meta.spaceId);
+}
+
+/**
+ * Publish a local file as a new Confluence page.
+ *
+ * Why: Drafting a page locally and publishing it in one step is faster than
+ * creating an empty page in the browser and downloading it first.
+ *
+ * How: Resolve the space (from the header or the parent page), take the title
+ * from the header, the first H1 (which is then removed from the body) or the
+ * file name, create the page with the converted body and write the new pageId,
+ * version and hash back into the header.
+ */
+async function createPageFromFile(
+  client: ConfluenceClient,
+  cwd: string,
+  file: string,
+  md: string,
+  opts: { dryRun: boolean; verbose: boolean; force: boolean }
+): Promise<void> {
+  const rel = path.relative(cwd, file);
+  const { meta, body } = parseHeader(md);
+  const spaceId = meta.spaceId || (meta.parentId ? (await client.getPage(meta.parentId)).spaceId : undefined);
+  if (!spaceId) { console.error(`[upload] Cannot create ${rel}: no spaceId and parent ${meta.parentId} has none`); return; }
+
+  let content = body;
+  let title = meta.title;
+  if (!title) {
+    const heading = splitTitleHeading(body);
+    title = heading.title ?? path.basename(file).replace(/\.mdx?$/, "");
+    content = heading.body;
+  }
+  const effectiveTitle = buildEffectiveTitle(title, undefined, meta.status) || title;
+  const local = resolveLocalAttachments(content, file);
+  const convert = conversionOptions(file, "", local.body);
+  const html = markdownToStorageHtml(local.body, convert);
+  const valid = checkOutgoingStorage(rel, html, local.body, lineOffset(md, content), convert, { force: opts.force });
+
+  if (opts.verbose) {
+    console.log(`[upload] Preparing new page ${rel}`);
+    console.log(`[upload]   space=${spaceId} parent=${meta.parentId || "(space root)"} title="${effectiveTitle}"`);
+  }
+  if (opts.dryRun) {
+    console.log(`[upload] Dry run for ${rel} (new page "${effectiveTitle}" in space ${spaceId}${meta.parentId ? ` below ${meta.parentId}` : ""}):`);
+    for (const line of formatStorageDiff(diffStorage("", html))) console.log(`[upload]   ${line}`);
+    for (const a of local.attachments) console.log(`[upload]   would add attachment ${a.filename}`);
+    if (meta.labels?.length) console.log(`[upload]   would add labels ${meta.labels.join(", ")}`);
+    return;
+  }
+  if (!valid) return;
+
+  const { id } = await client.createPage(spaceId, effectiveTitle, meta.parentId, html);
+  console.log(`[upload] Created page ${id} from ${rel}`);
+  // The page must exist before files can be attached; refs resolve by filename once uploaded
+  await syncAttachments(client, id, local.attachments, { verbose: opts.verbose });
+  await syncLabels(client, id, meta.labels, { verbose: opts.verbose });
+
+  const created = await client.getPageStorage(id);
+  const next = emitHeader({ ...meta, pageId: id, spaceId, title, version: created.version, hash: storageHash(created.storageHtml) }) + content.trimStart();
+  fs.writeFileSync(file, next, "utf8");
+  const macroStore = saveMacroStore(file, created.storageHtml, content);
+  const anchors = saveBlockAnchors(file, created.storageHtml);
+  await commitFile(cwd, file, [macroStore, anchors].filter((f): f is string => !!f));
+}
+
+export interface OutgoingStorage {
+  html: string;
+  mode: "partial" | "full";
+  nodeIds: string[]; // nodeIds of tagged blocks found in the markdown
+  missing: string[]; // tagged nodeIds that no longer exist remotely
+  anchored?: Omit<AnchoredStorage, "html">; // full update that kept the live nodes of unchanged blocks
+}
+
+/**
+ * Build the storage HTML that upload would send for a markdown body.
+ *
+ * Why: Upload and --dry-run must take exactly the same decisions, so the
+ * preview shows what would really go live.
+ *
+ * How: Convert blocks that carry nodeId tags and splice them into the live
+ * storage (partial update). Without tags, keep the live nodes of blocks the
+ * block fingerprints recognise as unchanged (see block-anchors.ts). Fall back
+ * to converting the whole body when neither applies or when some tagged nodes
+ * no longer exist remotely.
+ */
+export function buildOutgoingStorage(
+  storageHtml: string,
+  body: string,
+  convert: MarkdownToStorageOptions = {},
+  anchors: BlockAnchor[] = []
+): OutgoingStorage {
+  // Build replacements for blocks that have nodeId tags (upload only those)
+  const replacements: Record<string, string> = {};
+  for (const b of parseBlocks(body)) {
+    if (!b.tag?.nodeId) continue;
+    const html = markdownToStorageHtml(b.text, convert);
+    if (html.trim()) replacements[b.tag.nodeId] = html;
+  }
+  const nodeIds = Object.keys(replacements);
+  if (nodeIds.length === 0) {
+    // No tags -> full page replacement, keeping the nodes of unchanged blocks
+    const anchored = applyBlockAnchors(storageHtml, body, anchors, (md) => markdownToStorageHtml(md, convert));
+    if (anchored) {
+      const { html, ...counts } = anchored;
+      return { html, mode: "full", nodeIds, missing: [], anchored: counts };
+    }
+    return { html: markdownToStorageHtml(body, convert), mode: "full", nodeIds, missing: [] };
+  }
+  const { html, missing } = replaceNodesById(storageHtml, replacements);
+  if (missing.length > 0) {
+    return { html: markdownToStorageHtml(body, convert), mode: "full", nodeIds, missing };
+  }
+  return { html, mode: "partial", nodeIds, missing };
+}
+
+/**
+ * Check the storage that would be sent and print its problems with the file
+ * lines they came from; invalid storage is not uploaded unless forced.
+ * Problems the live page already has are only warnings, since kept remote
+ * nodes carry them and the page could otherwise never be uploaded again.
+ *
+ * Why: Confluence rejects malformed storage with a bare 400 body, or accepts
+ * it and renders a broken page.
+ */
+export function checkOutgoingStorage(
+  rel: string,
+  html: string,
+  body: string,
+  offset: number,
+  convert: MarkdownToStorageOptions,
+  opts: { liveStorage?: string; force?: boolean } = {}
+): boolean {
+  const issues = locateStorageIssues(html, body, (text) => markdownToStorageHtml(text, convert));
+  if (issues.length === 0) return true;
+  // Problems the live page already has come from kept remote nodes; Confluence accepted them before
+  const inherited = new Set(opts.liveStorage ? validateStorage(opts.liveStorage) : []);
+  const format = (issue: { line?: number; message: string }) =>
+    `[upload]   ${issue.line !== undefined ? `${rel}:${issue.line + offset}: ` : ""}${issue.message}`;
+  const remote = issues.filter((i) => inherited.has(i.message));
+  if (remote.length > 0) {
+    console.warn(`[upload] ${rel}: the live page already has storage problems, kept as they are:`);
+    for (const issue of remote) console.warn(format(issue));
+  }
+  const fresh = issues.filter((i) => !inherited.has(i.message));
+  if (fresh.length === 0) return true;
+  const report = opts.force ? console.warn : console.error;
+  report(`[upload] ${rel} does not convert to valid Confluence storage${opts.force ? " (uploading anyway: --force)" : ""}:`);
+  for (const issue of fresh) report(format(issue));
+  return !!opts.force;
+}
+
+/**
+ * Number of file lines before the body (header, removed title).
+ */
+function lineOffset(md: string, body: string): number {
+  const at = md.lastIndexOf(body);
+  return at === -1 ? 0 : md.slice(0, at).split("\n").length - 1;
+}
+
+/**
+ * Page-specific converter input: the original XML of the preserved macros a
+ * body references, the Jira server for `jira:` links and query blocks and the
+ * page's emoticons for `:shortname:` emoji.
+ * Placeholders whose macro is neither in the sidecar nor on the live page
+ * cannot be restored and are dropped with a warning.
+ */
+export function conversionOptions(file: string, storageHtml: string, body: string): MarkdownToStorageOptions {
+  const macros = loadMacroStore(file, storageHtml);
+  const unknown = macroPlaceholderIds(body).filter((id) => macros[id] === undefined);
+  if (unknown.length > 0) {
+    console.warn(`[upload] Unknown macro placeholders in ${path.basename(file)} (will be dropped): ${unknown.join(", ")}`);
+  }
+  const jira = jiraMacroServer(storageHtml);
+  if (!jira.serverId && /\]\(jira:|<!--\s*jira:query\b/.test(body)) {
+    console.warn(`[upload] No Jira server known for ${path.basename(file)}; set JIRA_SERVER and JIRA_SERVER_ID in .env`);
+  }
+  return { macros, jira, emoticons: extractEmoticons(storageHtml) };
+}
+
+/**
+ * Add and remove page labels so they match the header's `labels:` line.
+ * Files without the line leave the page labels alone.
+ */
+export async function syncLabels(
+  client: ConfluenceClient,
+  pageId: string,
+  labels: string[] | undefined,
+  opts: { dryRun?: boolean; verbose?: boolean } = {}
+): Promise<void> {
+  if (labels === undefined) return;
+  const remote = await client.getPageLabels(pageId);
+  const add = labels.filter((l) => !remote.includes(l));
+  const remove = remote.filter((l) => !labels.includes(l));
+  if (add.length === 0 && remove.length === 0) {
+    if (opts.verbose) console.log(`[upload]   labels unchanged`);
+    return;
+  }
+  const summary = [...add.map((l) => `+${l}`), ...remove.map((l) => `-${l}`)].join(" ");
+  if (opts.dryRun) {
+    console.log(`[upload]   would change labels: ${summary}`);
+    return;
+  }
+  if (add.length > 0) await client.addPageLabels(pageId, add);
+  for (const label of remove) await client.removePageLabel(pageId, label);
+  console.log(`[upload]   labels: ${summary}`);
+}
+
+/**
+ * Whether the remote page moved past the version recorded in the header.
+ * A version bump whose storage hash still matches the header is not a change.
+ */
+export function hasRemoteChanged(meta: HeaderMeta, remoteVersion: number, remoteStorage: string): boolean {
+  if (meta.version === undefined) return false;
+  if (remoteVersion <= meta.version) return false;
+  return !meta.hash || meta.hash !== storageHash(remoteStorage);
+}
+
+/**
+ * Decide what to do when the remote page was edited since the last sync.
+ * Why: Silently bumping the live version would wipe a colleague's edits.
+ * How: In a terminal, offer to merge (sync), overwrite, or skip; otherwise skip.
+ */
+async function resolveRemoteChange(rel: string, localVersion: number, remoteVersion: number): Promise<"merge" | "overwrite" | "skip"> {
+  console.warn(`[upload] Remote page changed since last sync (local v${localVersion}, remote v${remoteVersion}): ${rel}`);
+  if (!process.stdin.isTTY) {
+    console.error(`[upload] Skipped ${rel}. Run 'sync ${rel}' to merge or 'upload --force ${rel}' to overwrite.`);
+    return "skip";
+  }
+  try {
+    const { action } = await prompt<{ action: "merge" | "overwrite" | "skip" }>({
+      type: "select",
+      name: "action",
+      message: `How should ${rel} be uploaded?`,
+      choices: [
+        { name: "merge", message: "Merge remote changes first (sync)" },
+        { name: "overwrite", message: "Overwrite remote changes" },
+        { name: "skip", message: "Skip this file" },
+      ],
+    } as any);
+    return action;
+  } catch {
+    return "skip";
   }
 }
 
@@ -263,7 +641,7 @@ async function selectFilesInteractively(cwd: string, candidates: string[], chang
  * Why: Need to discover all markdown files in the workspace, optionally including gitignored files.
  * How: Traverse filesystem and filter by extension, respecting or ignoring .gitignore based on flag.
  */
-function walkMarkdown(dir: string, includeGitignored: boolean = false): string[] {
+export function walkMarkdown(dir: string, includeGitignored: boolean = false): string[] {
   if (!fs.existsSync(dir)) return [];
   const out: string[] = [];
   
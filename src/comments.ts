@@ -0,0 +1,220 @@
+/**
+ * Comment threads of a page, saved next to the markdown file.
+ *
+ * Why: Inline comment markers survive as `<!-- comment:ref -->` wrappers, but
+ * the comments themselves live outside the page body. Reviews ("address all
+ * open comments") need their text, authors and replies next to the markdown.
+ *
+ * How: `download --comments` fetches the inline and footer comments of a page
+ * with their replies through the v2 API and writes them to
+ * `<name>.comments.json`. Inline threads are keyed by the marker ref used in
+ * the markdown, footer threads by the id of their first comment. Comment
+ * bodies are converted to markdown like page content.
+ *
+ * Replies and resolutions are written locally: a thread with `"reply": "…"`
+ * (markdown) or `"resolve": true` is posted by the next upload, after the page
+ * body was updated, and the file is then refreshed from Confluence. Entries
+ * that were not posted yet survive a new download.
+ */
+
+import fs from "fs";
+import path from "path";
+import { CommentType, CommentV2, ConfluenceClient } from "./api.js";
+import { markdownToStorageHtml, renderMarkdownBody } from "./storage-dom.js";
+
+export interface LocalComment {
+  id: string;
+  author: string; // display name, or the account id when it cannot be resolved
+  authorId?: string;
+  created?: string; // ISO timestamp
+  body: string; // markdown
+}
+
+export interface CommentThread {
+  id: string; // id of the first comment
+  status?: string; // inline comments: open, reopened, resolved or dangling
+  selection?: string; // inline comments: the text the comment is anchored to
+  comments: LocalComment[]; // first comment, then the replies by date
+  reply?: string; // local: reply to post with the next upload (markdown)
+  resolve?: boolean; // local: resolve the thread with the next upload (inline threads)
+}
+
+export interface PageComments {
+  pageId: string;
+  inline: Record<string, CommentThread>; // by marker ref, as in <!-- comment:ref -->
+  footer: Record<string, CommentThread>; // by id of the first comment
+}
+
+/**
+ * Comment file of a markdown file: `<name>.comments.json`.
+ */
+export function commentsPathFor(mdFile: string): string {
+  return path.join(path.dirname(mdFile), `${path.basename(mdFile).replace(/\.mdx?$/i, "")}.comments.json`);
+}
+
+/**
+ * Fetch all current comment threads of a page.
+ */
+export async function fetchPageComments(client: ConfluenceClient, pageId: string): Promise<PageComments> {
+  const names = new Map<string, Promise<string | undefined>>();
+  const author = async (accountId?: string): Promise<string> => {
+    if (!accountId) return "unknown";
+    if (!names.has(accountId)) names.set(accountId, client.getUserDisplayName(accountId).catch(() => undefined));
+    return (await names.get(accountId)) ?? accountId;
+  };
+  const toLocal = async (c: CommentV2): Promise<LocalComment> => ({
+    id: c.id,
+    author: await author(c.version?.authorId),
+    authorId: c.version?.authorId,
+    created: c.version?.createdAt,
+    body: renderMarkdownBody(c.body?.storage?.value ?? "").trim(),
+  });
+  const thread = async (c: CommentV2, type: CommentType): Promise<CommentThread> => {
+    const replies = await fetchReplies(client, c.id, type);
+    replies.sort((a, b) => String(a.version?.createdAt ?? "").localeCompare(String(b.version?.createdAt ?? "")));
+    return {
+      id: c.id,
+      status: type === "inline" ? c.resolutionStatus : undefined,
+      selection: c.properties?.inlineOriginalSelection || undefined,
+      comments: await Promise.all([c, ...replies].map(toLocal)),
+    };
+  };
+
+  const out: PageComments = { pageId, inline: {}, footer: {} };
+  for (const c of await client.getPageComments(pageId, "inline")) {
+    out.inline[c.properties?.inlineMarkerRef || c.id] = await thread(c, "inline");
+  }
+  for (const c of await client.getPageComments(pageId, "footer")) {
+    out.footer[c.id] = await thread(c, "footer");
+  }
+  return out;
+}
+
+/**
+ * Replies of a comment, including replies to replies.
+ */
+async function fetchReplies(client: ConfluenceClient, commentId: string, type: CommentType): Promise<CommentV2[]> {
+  const out: CommentV2[] = [];
+  for (const reply of await client.getCommentReplies(commentId, type)) {
+    out.push(reply, ...(await fetchReplies(client, reply.id, type)));
+  }
+  return out;
+}
+
+/**
+ * Fetch the comments of a page and write them next to the markdown file;
+ * the file is removed when the page has no comments.
+ *
+ * @returns the comment file path when it was written or removed (for committing), otherwise undefined
+ */
+export async function downloadComments(client: ConfluenceClient, pageId: string, mdFile: string): Promise<string | undefined> {
+  const comments = await fetchPageComments(client, pageId);
+  keepPendingActions(comments, readPageComments(mdFile));
+  return writePageComments(mdFile, comments);
+}
+
+/**
+ * Post the replies and resolutions of the comment file, then refresh it.
+ * Threads whose action failed keep it for the next upload.
+ *
+ * @returns the comment file path when it was rewritten (for committing), otherwise undefined
+ */
+export async function postCommentActions(
+  client: ConfluenceClient,
+  pageId: string,
+  mdFile: string,
+  opts: { dryRun?: boolean } = {}
+): Promise<string | undefined> {
+  const local = readPageComments(mdFile);
+  if (!local) return undefined;
+  const pending = threadEntries(local).filter(([, , t]) => t.reply !== undefined || t.resolve !== undefined);
+  if (pending.length === 0) return undefined;
+  for (const [type, key, thread] of pending) {
+    const label = `${type} thread ${key}`;
+    if (opts.dryRun) {
+      if (thread.reply?.trim()) console.log(`[upload]   would reply to ${label}`);
+      if (thread.resolve) console.log(`[upload]   would resolve ${label}`);
+      continue;
+    }
+    try {
+      if (thread.reply?.trim()) {
+        await client.replyToComment(thread.id, type, markdownToStorageHtml(thread.reply));
+        console.log(`[upload]   replied to ${label}`);
+      }
+      delete thread.reply;
+      if (thread.resolve && type === "footer") {
+        console.warn(`[upload]   footer comments cannot be resolved: ${label}`);
+      } else if (thread.resolve) {
+        await client.resolveInlineComment(thread.id);
+        console.log(`[upload]   resolved ${label}`);
+      }
+      delete thread.resolve;
+    } catch (err) {
+      console.warn(`[upload]   ${label}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  if (opts.dryRun) return undefined;
+  // Show the posted replies and new states; actions that failed stay pending
+  const fresh = await fetchPageComments(client, pageId);
+  keepPendingActions(fresh, local);
+  return writePageComments(mdFile, fresh);
+}
+
+/**
+ * Read the comment file of a markdown file, if there is a readable one.
+ */
+function readPageComments(mdFile: string): PageComments | undefined {
+  const file = commentsPathFor(mdFile);
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    const data = JSON.parse(fs.readFileSync(file, "utf8")) as PageComments;
+    return { ...data, inline: data.inline ?? {}, footer: data.footer ?? {} };
+  } catch (err) {
+    console.warn(`[comments] Ignoring unreadable comment file ${path.basename(file)}: ${err}`);
+    return undefined;
+  }
+}
+
+/**
+ * Carry replies and resolutions that were not posted yet over to freshly
+ * fetched threads; actions on threads that no longer exist are reported.
+ */
+function keepPendingActions(fresh: PageComments, local: PageComments | undefined): void {
+  if (!local) return;
+  for (const [type, key, thread] of threadEntries(local)) {
+    if (thread.reply === undefined && thread.resolve === undefined) continue;
+    const target = fresh[type][key];
+    if (!target) {
+      console.warn(`[comments] Dropping reply/resolve of ${type} thread ${key}: the thread no longer exists`);
+      continue;
+    }
+    if (thread.reply !== undefined) target.reply = thread.reply;
+    if (thread.resolve !== undefined) target.resolve = thread.resolve;
+  }
+}
+
+function threadEntries(comments: PageComments): [CommentType, string, CommentThread][] {
+  return [
+    ...Object.entries(comments.inline).map(([key, t]) => ["inline", key, t] as [CommentType, string, CommentThread]),
+    ...Object.entries(comments.footer).map(([key, t]) => ["footer", key, t] as [CommentType, string, CommentThread]),
+  ];
+}
+
+/**
+ * Write the comment file; it is removed when the page has no comments.
+ */
+function writePageComments(mdFile: string, comments: PageComments): string | undefined {
+  const file = commentsPathFor(mdFile);
+  const count = Object.keys(comments.inline).length + Object.keys(comments.footer).length;
+  if (count === 0) {
+    if (!fs.existsSync(file)) return undefined;
+    fs.rmSync(file);
+    return file;
+  }
+  const next = JSON.stringify(comments, null, 2) + "\n";
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === next) return undefined;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, next, "utf8");
+  console.log(`[comments] Saved ${count} comment thread(s) to ${path.basename(file)}`);
+  return file;
+}
@@ -9,6 +9,10 @@
  * access to fields like `renamed` and avoid implicit any.
  */
 
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile } from "node:child_process";
 import { simpleGit, SimpleGit, StatusResult } from "simple-git";
 
 /**
@@ -33,6 +37,26 @@ export async function listChangedMarkdownFiles(cwd: string): Promise<string[]> {
   return Array.from(candidates);
 }
 
+/**
+ * List Markdown files renamed or moved in the working tree (e.g. by `git mv`).
+ * Paths are relative to the repository root.
+ */
+export async function listRenamedMarkdownFiles(cwd: string): Promise<{ from: string; to: string }[]> {
+  const git: SimpleGit = simpleGit({ baseDir: cwd });
+  const status: StatusResult = await git.status();
+  return status.renamed.filter((r) => /\.mdx?$/.test(r.to));
+}
+
+/**
+ * List Markdown files deleted in the working tree (staged or not).
+ * Paths are relative to the repository root.
+ */
+export async function listDeletedMarkdownFiles(cwd: string): Promise<string[]> {
+  const git: SimpleGit = simpleGit({ baseDir: cwd });
+  const status: StatusResult = await git.status();
+  return status.deleted.filter((f) => /\.mdx?$/.test(f));
+}
+
 /**
  * Get the diff for a single file path relative to the repo root.
  * Returns an empty string when the file has no diff or when git throws
@@ -61,7 +85,7 @@ export async function getDiffForFile(cwd: string, filePath: string): Promise<str
  * @param cwd - Repository root directory
  * @param filePath - Absolute path to the file to commit
  */
-export async function commitFile(cwd: string, filePath: string): Promise<void> {
+export async function commitFile(cwd: string, filePath: string, extraPaths: string[] = []): Promise<void> {
   // Check if auto-commits are disabled via environment variable
   if (process.env.NO_AUTO_COMMIT) {
     console.log(`[git] Skipped commit (NO_AUTO_COMMIT is set): ${filePath}`);
@@ -69,7 +93,6 @@ export async function commitFile(cwd: string, filePath: string): Promise<void> {
   }
   
   const git: SimpleGit = simpleGit({ baseDir: cwd });
-  const path = await import("path");
   
   // Get relative path from repo root for the commit message
   const relativePath = path.relative(cwd, filePath);
@@ -82,8 +105,15 @@ export async function commitFile(cwd: string, filePath: string): Promise<void> {
       return;
     }
     
-    // Stage the specific file
-    await git.add(relativePath);
+    // Stage the specific file (plus companion files such as downloaded attachments)
+    if (fs.existsSync(filePath)) await git.add(relativePath);
+    // A deleted file (see prune) is committed as a removal
+    else await git.raw(["rm", "--cached", "--ignore-unmatch", "-q", "--", relativePath]);
+    const extras = extraPaths.filter((p) => fs.existsSync(p)).map((p) => path.relative(cwd, p));
+    if (extras.length > 0) await git.add(extras);
+    // Companion files that were removed (e.g. an emptied macro store)
+    const removed = extraPaths.filter((p) => !fs.existsSync(p)).map((p) => path.relative(cwd, p));
+    if (removed.length > 0) await git.raw(["rm", "--cached", "--ignore-unmatch", "-q", "--", ...removed]);
     
     // Check if there are actually changes to commit
     const status = await git.status();
@@ -102,4 +132,90 @@ export async function commitFile(cwd: string, filePath: string): Promise<void> {
   }
 }
 
+/**
+ * Read the last-synced version of a file from git history.
+ *
+ * Why: A three-way merge needs the common ancestor of local edits and remote
+ * edits, which is the content as it was when we last downloaded or uploaded.
+ *
+ * How: Prefer the newest commit created by `commitFile` ("update <path>"), since
+ * users may have committed local edits on top of it without uploading them.
+ * Falls back to the newest commit touching the file (e.g. with NO_AUTO_COMMIT).
+ * Returns undefined when the file was never committed.
+ *
+ * @param cwd - Repository root directory
+ * @param filePath - Absolute path to the file
+ */
+export async function getLastSyncedContent(cwd: string, filePath: string): Promise<string | undefined> {
+  const git: SimpleGit = simpleGit({ baseDir: cwd });
+  const relativePath = path.relative(cwd, filePath);
+  try {
+    const log = await git.raw(["log", "--format=%H%x09%s", "--", relativePath]);
+    const commits = log
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => {
+        const [hash = "", subject = ""] = line.split("\t");
+        return { hash, subject };
+      });
+    const synced = commits.find((c) => c.subject === `update ${relativePath}`) ?? commits[0];
+    if (!synced) return undefined;
+    // "./" makes the path relative to cwd instead of the repository root
+    return await git.show([`${synced.hash}:./${relativePath}`]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether text still contains conflict markers written by `mergeText`.
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<{7}|>{7}) /m.test(text);
+}
 
+/**
+ * Three-way merge of text contents using `git merge-file`.
+ *
+ * Why: git already implements a robust line-based merge with familiar conflict
+ * markers; reusing it avoids a home-grown diff algorithm.
+ *
+ * How: Write the three versions to a temporary directory and run
+ * `git merge-file -p`. Its exit code is the number of conflicts, so a non-zero
+ * code is not an error by itself.
+ *
+ * @returns merged text (with conflict markers when conflicts > 0)
+ */
+export async function mergeText(
+  cwd: string,
+  versions: { local: string; base: string; remote: string },
+  labels: { local: string; base: string; remote: string } = { local: "local", base: "last sync", remote: "confluence" }
+): Promise<{ merged: string; conflicts: number }> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "confluence-merge-"));
+  const localPath = path.join(dir, "local");
+  const basePath = path.join(dir, "base");
+  const remotePath = path.join(dir, "remote");
+  fs.writeFileSync(localPath, versions.local, "utf8");
+  fs.writeFileSync(basePath, versions.base, "utf8");
+  fs.writeFileSync(remotePath, versions.remote, "utf8");
+  try {
+    return await new Promise((resolve, reject) => {
+      execFile(
+        "git",
+        ["merge-file", "-p", "-L", labels.local, "-L", labels.base, "-L", labels.remote, localPath, basePath, remotePath],
+        { cwd, encoding: "utf8", maxBuffer: 64 * 1024 * 1024 },
+        (err, stdout) => {
+          const code = err ? (err as NodeJS.ErrnoException & { code?: unknown }).code : 0;
+          // Exit codes 1..127 report the number of conflicts; anything else is a real failure
+          if (typeof code === "number" && code >= 0 && code < 128) {
+            resolve({ merged: String(stdout), conflicts: code });
+          } else {
+            reject(err);
+          }
+        }
+      );
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
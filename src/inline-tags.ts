@@ -6,6 +6,8 @@
  * - `<!-- tag:content nodeId:789 -->` (legacy; still accepted)
  */
 
+import { continuesList } from "./storage-dom.js";
+
 export interface InlineTag {
   tagType?: string;
   nodeId?: string;
@@ -32,11 +34,14 @@ export function parseBlocks(markdownBody: string): MarkdownBlock[] {
     current = [];
   }
 
+  let inFence = false;
+  let afterBlank = false;
   for (const line of lines) {
-    const nodeMatch = line.match(NODE_TAG_RE);
-    const legacyMatch = nodeMatch ? null : line.match(LEGACY_TAG_RE);
+    const nodeMatch = inFence ? null : line.match(NODE_TAG_RE);
+    const legacyMatch = nodeMatch || inFence ? null : line.match(LEGACY_TAG_RE);
     if (nodeMatch || legacyMatch) {
       flush();
+      afterBlank = false;
       if (nodeMatch) {
         pendingTag = { tagType: "content", nodeId: nodeMatch.groups?.id };
       } else if (legacyMatch) {
@@ -44,11 +49,16 @@ export function parseBlocks(markdownBody: string): MarkdownBlock[] {
       }
       continue;
     }
-    current.push(line);
-    if (/^\s*$/.test(line)) {
-      // consider paragraph boundary
-      flush();
+    if (/^\s*$/.test(line) && !inFence) {
+      // Paragraph boundary, unless the next line continues a list (loose items, nested blocks)
+      if (current.length > 0) current.push(line);
+      afterBlank = true;
+      continue;
     }
+    if (afterBlank && !continuesList(current, line)) flush();
+    afterBlank = false;
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    current.push(line);
   }
   flush();
   return blocks.filter((b) => b.text.trim() !== "");
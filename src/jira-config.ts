@@ -0,0 +1,70 @@
+/**
+ * Jira settings shared by the task command and the Jira macro conversion.
+ *
+ * Why: Both create Jira references from the same `.env` values; reading them
+ * in one place keeps defaults and error messages consistent.
+ */
+
+export interface JiraConfig {
+  baseUrl: string;
+  projectKey: string;
+}
+
+/**
+ * Server reference written into Jira macros (the Confluence application link).
+ */
+export interface JiraMacroServer {
+  server?: string; // application link name, e.g. "System JIRA"
+  serverId?: string; // application link id
+}
+
+/**
+ * Read the Jira site and project from the environment.
+ */
+export function readJiraConfig(): JiraConfig {
+  return {
+    baseUrl: process.env.JIRA_BASE_URL || "",
+    projectKey: process.env.JIRA_PROJECT_KEY || "",
+  };
+}
+
+/**
+ * Build the authorization headers for Jira Cloud using either Basic auth
+ * (email + API token) or a bearer access token.
+ */
+export function jiraAuthHeaders(): Record<string, string> {
+  const accessToken = process.env.JIRA_ACCESS_TOKEN;
+  const email = process.env.JIRA_EMAIL;
+  const apiToken = process.env.JIRA_API_TOKEN;
+
+  if (accessToken) {
+    return { Authorization: `Bearer ${accessToken}` };
+  }
+  if (email && apiToken) {
+    const basic = Buffer.from(`${email}:${apiToken}`).toString("base64");
+    return { Authorization: `Basic ${basic}` };
+  }
+  throw new Error(
+    "Jira auth not configured. Set JIRA_ACCESS_TOKEN or JIRA_EMAIL and JIRA_API_TOKEN"
+  );
+}
+
+/**
+ * Resolve the server reference for Jira macros created on upload.
+ *
+ * How: Prefer the server of a Jira macro already on the page (it is known to
+ * work for this site), otherwise use JIRA_SERVER / JIRA_SERVER_ID from `.env`.
+ */
+export function jiraMacroServer(storageHtml = ""): JiraMacroServer {
+  const re = /<ac:structured-macro\b[^>]*\bac:name=["']jira["'][^>]*>([\s\S]*?)<\/ac:structured-macro>/gi;
+  for (const m of storageHtml.matchAll(re)) {
+    const param = (name: string) =>
+      m[1]!.match(new RegExp(`<ac:parameter\\b[^>]*\\bac:name=["']${name}["'][^>]*>([^<]*)</ac:parameter>`, "i"))?.[1];
+    const serverId = param("serverId");
+    if (serverId) return { server: param("server"), serverId };
+  }
+  return {
+    server: process.env.JIRA_SERVER || undefined,
+    serverId: process.env.JIRA_SERVER_ID || undefined,
+  };
+}
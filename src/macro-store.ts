@@ -0,0 +1,66 @@
+/**
+ * Sidecar store for the original XML of preserved macros.
+ *
+ * Why: Macros without a markdown representation are shown as
+ * `<!-- macro:name#hash … -->` placeholders. Upload must re-emit their storage
+ * byte for byte, even when the macro was moved to another block or the page
+ * was edited remotely in the meantime.
+ *
+ * How: Download writes `.<filename>.macros.json` next to the markdown file,
+ * mapping each referenced hash to its XML. Upload merges the sidecar with the
+ * macros found in the live storage, so a missing or stale sidecar still works
+ * as long as the macro exists on the page.
+ */
+
+import fs from "fs";
+import path from "path";
+import { extractOpaqueMacros, macroPlaceholderIds } from "./storage-dom.js";
+
+/**
+ * Path of the macro sidecar of a markdown file.
+ */
+export function macroStorePath(mdFile: string): string {
+  return path.join(path.dirname(mdFile), `.${path.basename(mdFile)}.macros.json`);
+}
+
+/**
+ * Save the macros a markdown body references, taken from the given storage or
+ * the existing sidecar (placeholders of local edits may not be live yet).
+ *
+ * @returns the sidecar path when it was written or removed (for committing), otherwise undefined
+ */
+export function saveMacroStore(mdFile: string, storageHtml: string, body: string): string | undefined {
+  const file = macroStorePath(mdFile);
+  const all = loadMacroStore(mdFile, storageHtml);
+  const macros: Record<string, string> = {};
+  for (const id of macroPlaceholderIds(body).sort()) {
+    if (all[id] !== undefined) macros[id] = all[id]!;
+  }
+  if (Object.keys(macros).length === 0) {
+    if (!fs.existsSync(file)) return undefined;
+    fs.rmSync(file);
+    return file;
+  }
+  const next = JSON.stringify(macros, null, 2) + "\n";
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === next) return undefined;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, next, "utf8");
+  return file;
+}
+
+/**
+ * Load the macros available for upload: the sidecar merged with the macros
+ * of the live storage (the live storage wins for equal hashes).
+ */
+export function loadMacroStore(mdFile: string, liveStorageHtml = ""): Record<string, string> {
+  let stored: Record<string, string> = {};
+  const file = macroStorePath(mdFile);
+  if (fs.existsSync(file)) {
+    try {
+      stored = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (err) {
+      console.warn(`[macros] Ignoring unreadable macro store ${path.basename(file)}: ${err}`);
+    }
+  }
+  return { ...stored, ...extractOpaqueMacros(liveStorageHtml) };
+}
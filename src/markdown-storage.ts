@@ -0,0 +1,686 @@
+/**
+ * Markdown → Confluence storage XHTML.
+ *
+ * Why: A line-by-line converter cannot follow markdown's nesting rules, so
+ * emphasis inside links, `_italic_`, strikethrough, hard breaks, raw HTML and
+ * nested block quotes came out as literal text or broken markup after upload.
+ *
+ * How: markdown-it parses the document (CommonMark plus GFM tables and
+ * strikethrough). Small plugins add our own syntax: `<details>` expand blocks,
+ * block-level comment tags (layout markers, widgets, Jira queries, table
+ * attributes, panels, node tags) and `page:` / `jira:` / `#attachment` links
+ * that may contain spaces. Inline comment tags (mentions, comment wrappers,
+ * dates, statuses, placeholders, task ids) arrive as `html_inline` tokens.
+ * The token tree is rendered here rather than by markdown-it's HTML renderer,
+ * since most nodes map to Confluence elements (macros, task lists, images).
+ */
+
+import MarkdownIt, { StateBlock, StateInline, Token } from "markdown-it";
+import htmlBlock from "markdown-it/lib/rules_block/html_block.mjs";
+import { MERGED_CELL, StyleTag, decodeBasicEntities, encodeToken, escapeHtml, followsOn } from "./storage-dom.js";
+
+const LAYOUT_MARKER_RE = /^\s*<!--\s*layout-(section|cell|end)(?::([^>]*?))?\s*-->\s*$/i;
+const JIRA_QUERY_RE = /^\s*<!--\s*jira:query\b([\s\S]*?)-->\s*$/i;
+const JIRA_MACRO_OPEN = `<ac:structured-macro ac:name="jira" ac:schema-version="1">`;
+const TABLE_TAG_RE = /^\s*<!--\s*table:((?:(?!-->).)*?)\s*-->\s*$/i;
+const CELL_TAG_RE = /\s*<!--\s*(?:cell|table):((?:(?!-->).)*?)\s*-->/gi;
+const PANEL_TAG_RE = /^\s*<!--\s*panel:([^:>]+):([^>]+?)\s*-->\s*/i;
+const TASK_TAG_RE = /^<!--\s*task:([^\s>]+)\s*-->$/i;
+/** Comment tags that stand for a block of their own when alone on a line. */
+const BLOCK_TAG_RE = /^<!--\s*(?:layout-(?:section|cell|end)\b|widget:|jira:query\b|table:|panel:|node:|tag:)(?:(?!-->).)*-->\s*$/i;
+/** Elements without content, written self-closing in storage. */
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "col", "input", "wbr"]);
+
+interface BlockNode {
+  token: Token;
+  children: BlockNode[];
+}
+
+interface ListItem {
+  html: string;
+  task?: { done: boolean; id?: string };
+}
+
+const md = new MarkdownIt("commonmark", { html: true }).enable(["table", "strikethrough"]);
+md.block.ruler.before("html_block", "confluence_details", detailsRule, { alt: ["paragraph", "reference", "blockquote"] });
+md.block.ruler.before("html_block", "confluence_block_tag", blockTagRule, { alt: ["paragraph", "reference", "blockquote"] });
+// Comments and <details> parts are ours: comments stay inline (mentions, comment wrappers at the start of a line)
+md.block.ruler.at("html_block", (state, startLine, endLine, silent) =>
+  /^<(?:!--|\/?(?:details|summary)\b)/i.test(lineText(state, startLine)) ? false : htmlBlock(state, startLine, endLine, silent),
+{ alt: ["paragraph", "reference", "blockquote"] });
+md.inline.ruler.before("link", "confluence_ref", refRule);
+
+/**
+ * Convert markdown to storage XHTML. Page-specific tokens (MD_MACRO, MD_EMOJI)
+ * are left for markdownToStorageHtml to resolve.
+ */
+export function renderMarkdownStorage(markdown: string): string {
+  return renderBlocks(blockTree(md.parse(markdown, {})));
+}
+
+/**
+ * Add the Jira server parameters to Jira macros built from markdown
+ * (preserved macros keep theirs).
+ */
+export function withJiraServer(html: string, server: { server?: string; serverId?: string }): string {
+  const params = (server.server ? `<ac:parameter ac:name="server">${escapeHtml(server.server)}</ac:parameter>` : "")
+    + (server.serverId ? `<ac:parameter ac:name="serverId">${escapeHtml(server.serverId)}</ac:parameter>` : "");
+  return html.split(JIRA_MACRO_OPEN).join(JIRA_MACRO_OPEN + params);
+}
+
+function lineText(state: StateBlock, line: number): string {
+  return state.src.slice(state.bMarks[line]! + state.tShift[line]!, state.eMarks[line]);
+}
+
+/**
+ * `<details>` up to its matching `</details>`, kept as one token and
+ * converted recursively (see renderDetails).
+ */
+function detailsRule(state: StateBlock, startLine: number, endLine: number, silent: boolean): boolean {
+  if (state.sCount[startLine]! - state.blkIndent >= 4 || !/^<details\b[^>]*>/i.test(lineText(state, startLine))) return false;
+  if (silent) return true;
+  let depth = 0;
+  let next = startLine;
+  while (next < endLine) {
+    const l = lineText(state, next++);
+    depth += (l.match(/<details\b[^>]*>/gi) || []).length;
+    depth -= (l.match(/<\/details>/gi) || []).length;
+    if (depth <= 0) break;
+  }
+  const token = state.push("details", "", 0);
+  token.content = state.getLines(startLine, next, state.blkIndent, false);
+  token.map = [startLine, next];
+  state.line = next;
+  return true;
+}
+
+function blockTagRule(state: StateBlock, startLine: number, _endLine: number, silent: boolean): boolean {
+  const line = lineText(state, startLine);
+  if (state.sCount[startLine]! - state.blkIndent >= 4 || !BLOCK_TAG_RE.test(line)) return false;
+  if (silent) return true;
+  const token = state.push("block_tag", "", 0);
+  token.content = line.trim();
+  token.map = [startLine, startLine + 1];
+  state.line = startLine + 1;
+  return true;
+}
+
+/**
+ * Links and images to Confluence targets: `[text](page:SPACE:Title)`,
+ * `[ABC-1](jira:ABC-1)`, `[text](#attachment:file.pdf)`, `![alt](#file.png)`.
+ * Titles and file names may contain spaces, which CommonMark links do not allow.
+ */
+function refRule(state: StateInline, silent: boolean): boolean {
+  const ch = state.src.charCodeAt(state.pos);
+  if (ch !== 0x5b /* [ */ && ch !== 0x21 /* ! */) return false;
+  const m = state.src.slice(state.pos).match(/^(!?)\[([^\]]*)\]\(((?:page:|jira:|#)[^)]*)\)/);
+  if (!m) return false;
+  if (!silent) {
+    const token = state.push("confluence_ref", "", 0);
+    token.meta = { image: m[1] === "!", label: m[2]!, href: m[3]!.trim() } satisfies ConfluenceRef;
+  }
+  state.pos += m[0].length;
+  return true;
+}
+
+/** Target of a `confluence_ref` token. */
+interface ConfluenceRef {
+  image: boolean;
+  label: string;
+  href: string;
+}
+
+function refMeta(token: Token): ConfluenceRef {
+  return token.meta as ConfluenceRef;
+}
+
+/**
+ * Nest the flat token stream: every open token holds the tokens up to its
+ * close token as children.
+ */
+function blockTree(tokens: Token[]): BlockNode[] {
+  const root: BlockNode[] = [];
+  const stack: BlockNode[][] = [root];
+  for (const token of tokens) {
+    if (token.nesting === -1) {
+      stack.pop();
+      continue;
+    }
+    const node: BlockNode = { token, children: [] };
+    stack[stack.length - 1]!.push(node);
+    if (token.nesting === 1) stack.push(node.children);
+  }
+  return root;
+}
+
+function inlineOf(node: BlockNode | undefined): Token[] {
+  return node?.children[0]?.token.children || [];
+}
+
+/**
+ * Render sibling blocks. Page layout markers open and close `ac:layout`
+ * elements around the blocks that follow them.
+ */
+function renderBlocks(nodes: BlockNode[]): string {
+  const out: string[] = [];
+  const layout = { layout: false, section: false, cell: false };
+  const closeLayout = (level: "cell" | "section" | "layout") => {
+    if (layout.cell) { out.push("</ac:layout-cell>"); layout.cell = false; }
+    if (level === "cell") return;
+    if (layout.section) { out.push("</ac:layout-section>"); layout.section = false; }
+    if (level === "section") return;
+    if (layout.layout) { out.push("</ac:layout>"); layout.layout = false; }
+  };
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i]!;
+    const token = node.token;
+    switch (token.type) {
+      case "paragraph_open":
+        out.push(renderParagraph(inlineOf(node)));
+        break;
+      case "heading_open":
+        out.push(`<${token.tag}>${renderInline(inlineOf(node))}</${token.tag}>`);
+        break;
+      case "bullet_list_open":
+      case "ordered_list_open":
+        out.push(renderList(node));
+        break;
+      case "blockquote_open":
+        out.push(renderBlockquote(node));
+        break;
+      case "table_open":
+        out.push(renderTable(node, {}));
+        break;
+      case "fence":
+        out.push(codeMacroHtml(token.content, token.info.trim().split(/\s+/)[0] || ""));
+        break;
+      case "code_block":
+        out.push(codeMacroHtml(token.content, ""));
+        break;
+      case "hr":
+        out.push("<hr/>");
+        break;
+      case "html_block":
+        out.push(renderHtmlBlock(token.content));
+        break;
+      case "details":
+        out.push(renderDetails(token.content));
+        break;
+      case "block_tag": {
+        const marker = token.content.match(LAYOUT_MARKER_RE);
+        if (marker) {
+          const kind = (marker[1] || "").toLowerCase();
+          if (kind === "section") {
+            closeLayout("section");
+            if (!layout.layout) { out.push("<ac:layout>"); layout.layout = true; }
+            out.push(`<ac:layout-section ac:type="${escapeHtml((marker[2] || "single").trim())}">`);
+            layout.section = true;
+          } else if (kind === "cell") {
+            closeLayout("cell");
+            out.push("<ac:layout-cell>");
+            layout.cell = true;
+          } else {
+            closeLayout("layout");
+          }
+          break;
+        }
+        const table = token.content.match(TABLE_TAG_RE);
+        if (table && nodes[i + 1]?.token.type === "table_open") {
+          out.push(renderTable(nodes[++i]!, parseStyleTag(table[1] || "")));
+          break;
+        }
+        out.push(blockTagHtml(token.content));
+        break;
+      }
+    }
+  }
+  closeLayout("layout");
+  return out.join("");
+}
+
+/**
+ * Widgets and Jira issue tables. Node tags, stray table tags and panel tags
+ * outside a block quote carry no content.
+ */
+function blockTagHtml(tag: string): string {
+  const jiraQuery = tag.match(JIRA_QUERY_RE);
+  if (jiraQuery) {
+    const params = parseJiraAttributes(jiraQuery[1] || "");
+    return jiraMacroHtml(Object.entries(params).map(([k, v]) => [k === "jql" ? "jqlQuery" : k, v] as [string, string]));
+  }
+  const widget = tag.match(/^<!--\s*widget:([A-Za-z0-9_-]+)\s*-->$/i);
+  if (widget) return `<ac:structured-macro ac:name="${widget[1]!.toLowerCase()}"><ac:rich-text-body/></ac:structured-macro>`;
+  return "";
+}
+
+/**
+ * A paragraph; an image alone on its line (plus an optional caption line
+ * below) becomes a block image.
+ */
+function renderParagraph(inline: Token[]): string {
+  const first = inline[0];
+  const isImage = first && (first.type === "image" || (first.type === "confluence_ref" && refMeta(first).image));
+  if (isImage && (inline.length === 1 || inline[1]!.type === "softbreak")) {
+    const caption = renderInline(inline.slice(2)).trim();
+    return imageHtml(first, caption);
+  }
+  const html = renderInline(inline);
+  return html.trim() ? `<p>${html}</p>` : "";
+}
+
+function imageHtml(token: Token, caption: string): string {
+  const src = token.type === "image" ? token.attrGet("src") || "" : refMeta(token).href;
+  const alt = token.type === "image" ? renderInline(token.children || []) : renderInlineMarkdown(refMeta(token).label);
+  const body = src.startsWith("#")
+    ? `<ri:attachment ri:filename="${escapeHtml(src.slice(1))}"/>`
+    : `<ri:url ri:value="${escapeHtml(src)}"/>`;
+  const captionOrAlt = caption || alt;
+  const capHtml = captionOrAlt ? `<ac:caption>${captionOrAlt}</ac:caption>` : "";
+  /**
+   * Constrain image display to a maximum width of 500px for readability.
+   * Provide both attribute and parameter forms for broad compatibility,
+   * and center images for better visual balance.
+   */
+  const displayParam = `<ac:parameter ac:name="width">500</ac:parameter>`;
+  const alignParam = `<ac:parameter ac:name="align">center</ac:parameter>`;
+  return `<ac:image ac:width="500" ac:align="center">${displayParam}${alignParam}${body}${capHtml}</ac:image>`;
+}
+
+/**
+ * Render a list.
+ *
+ * How: An item whose content is a single paragraph (plus nested lists) keeps
+ * its text bare; items with more content keep every paragraph in a `<p>`.
+ * Ordered items whose number does not follow on (`2024.` after `2.`) start a
+ * new list. Runs of `[ ]`/`[x]` bullet items become Confluence task lists;
+ * their `<!-- task:ID -->` tag keeps the task id.
+ */
+function renderList(node: BlockNode): string {
+  const ordered = node.token.type === "ordered_list_open";
+  const html: string[] = [];
+  let run: ListItem[] = [];
+  let start = 1;
+  let prev = "";
+  const flush = () => {
+    if (run.length === 0) return;
+    if (run[0]!.task) html.push(`<ac:task-list>${run.map((it) => taskHtml(it.task!, it.html)).join("")}</ac:task-list>`);
+    else if (ordered) html.push(`${start !== 1 ? `<ol start="${start}">` : "<ol>"}${run.map((it) => `<li>${it.html}</li>`).join("")}</ol>`);
+    else html.push(`<ul>${run.map((it) => `<li>${it.html}</li>`).join("")}</ul>`);
+    run = [];
+  };
+  for (const child of node.children) {
+    const item = renderListItem(child, ordered);
+    const number = child.token.info;
+    if (run.length > 0 && (!!item.task !== !!run[0]!.task || (ordered && !followsOn(prev, number)))) flush();
+    if (run.length === 0) start = ordered ? parseInt(number || "1", 10) : 1;
+    run.push(item);
+    prev = number;
+  }
+  flush();
+  return html.join("");
+}
+
+function renderListItem(node: BlockNode, ordered: boolean): ListItem {
+  const [first, ...rest] = node.children;
+  const inline = first?.token.type === "paragraph_open" ? inlineOf(first) : [];
+  let task: ListItem["task"];
+  const checkbox = !ordered && inline[0]?.type === "text" ? inline[0].content.match(/^\[([ xX])\](?:\s+|$)/) : null;
+  if (checkbox) {
+    inline[0]!.content = inline[0]!.content.slice(checkbox[0].length);
+    const idIndex = inline.findIndex((t) => t.type === "html_inline" && TASK_TAG_RE.test(t.content));
+    const id = idIndex === -1 ? undefined : inline[idIndex]!.content.match(TASK_TAG_RE)![1];
+    if (idIndex !== -1) inline.splice(idIndex, 1);
+    task = { done: checkbox[1] !== " ", id };
+  }
+  const listsOnly = rest.every((n) => n.token.type === "bullet_list_open" || n.token.type === "ordered_list_open");
+  if (inline.length > 0 && listsOnly) {
+    return { html: renderInline(inline).trim() + renderBlocks(rest), task };
+  }
+  return { html: renderBlocks(node.children), task };
+}
+
+/**
+ * Storage for a single task. New tasks have no id; Confluence assigns one.
+ */
+function taskHtml(task: { done: boolean; id?: string }, body: string): string {
+  const id = task.id ? `<ac:task-id>${escapeHtml(task.id)}</ac:task-id>` : "";
+  return `<ac:task>${id}<ac:task-status>${task.done ? "complete" : "incomplete"}</ac:task-status><ac:task-body>${body}</ac:task-body></ac:task>`;
+}
+
+/**
+ * A block quote, or a panel macro when it starts with `<!-- panel:color:icon -->`
+ * (known colours map to the info/note/… macros, others to a panel with bgColor).
+ */
+function renderBlockquote(node: BlockNode): string {
+  let children = node.children;
+  let panel: RegExpMatchArray | null = null;
+  const first = children[0];
+  if (first?.token.type === "block_tag") {
+    panel = first.token.content.match(PANEL_TAG_RE);
+    if (panel) children = children.slice(1);
+  } else if (first?.token.type === "paragraph_open") {
+    const inline = inlineOf(first);
+    panel = inline[0]?.type === "html_inline" ? inline[0].content.match(PANEL_TAG_RE) : null;
+    if (panel) {
+      inline.shift();
+      if (inline[0]?.type === "softbreak") inline.shift();
+      if (inline[0]?.type === "text") inline[0].content = inline[0].content.trimStart();
+    }
+  }
+  const body = renderBlocks(children);
+  if (!panel) return `<blockquote>${body}</blockquote>`;
+  const color = (panel[1] || "").trim().toLowerCase();
+  if (color === "panel") return `<ac:structured-macro ac:name="panel"><ac:rich-text-body>${body}</ac:rich-text-body></ac:structured-macro>`;
+  if (["info", "note", "warning", "tip", "success", "error"].includes(color)) {
+    return `<ac:structured-macro ac:name="${color}"><ac:rich-text-body>${body}</ac:rich-text-body></ac:structured-macro>`;
+  }
+  return `<ac:structured-macro ac:name="panel"><ac:parameter ac:name="bgColor">${escapeHtml(color)}</ac:parameter><ac:rich-text-body>${body}</ac:rich-text-body></ac:structured-macro>`;
+}
+
+/**
+ * Code macro. CDATA unless the code contains `]]>`, which would end it early.
+ */
+function codeMacroHtml(content: string, lang: string): string {
+  const code = content.replace(/\n$/, "");
+  const langParam = lang ? `<ac:parameter ac:name="language">${escapeHtml(lang)}</ac:parameter>` : "";
+  const body = code.includes("]]>")
+    ? `<ac:plain-text-body>${escapeHtml(code)}</ac:plain-text-body>`
+    : `<ac:plain-text-body><![CDATA[${code}]]></ac:plain-text-body>`;
+  return `<ac:structured-macro ac:name="code">${langParam}${body}</ac:structured-macro>`;
+}
+
+/**
+ * Raw HTML blocks are passed through when their tags are balanced (void
+ * elements are written self-closing); anything else is shown as text.
+ */
+function renderHtmlBlock(content: string): string {
+  const html = content.trim();
+  const stack: string[] = [];
+  for (const m of html.matchAll(/<(\/?)([A-Za-z][\w:-]*)\b[^>]*?(\/?)>/g)) {
+    const name = m[2]!.toLowerCase();
+    if (m[3] || VOID_ELEMENTS.has(name)) continue;
+    if (!m[1]) stack.push(name);
+    else if (stack.pop() !== name) return `<p>${escapeHtml(html)}</p>`;
+  }
+  if (stack.length > 0) return `<p>${escapeHtml(html)}</p>`;
+  return html.replace(/<([A-Za-z][\w:-]*)\b([^>]*?)\s*\/?>/g, (m, name: string, attrs: string) =>
+    VOID_ELEMENTS.has(name.toLowerCase()) ? `<${name}${attrs}/>` : m);
+}
+
+/**
+ * `<details><summary>Title</summary> … </details>` → expand macro. The
+ * summary becomes the title; the content is converted recursively, so nested
+ * expands, lists and code blocks work.
+ */
+function renderDetails(content: string): string {
+  let text = content.replace(/^\s*<details\b[^>]*>/i, "").replace(/<\/details>\s*$/i, "");
+  let title = "";
+  const summary = text.match(/^\s*<summary>([\s\S]*?)<\/summary>/i);
+  if (summary) {
+    title = decodeBasicEntities(summary[1] || "").trim();
+    text = text.slice(summary[0].length);
+  }
+  const titleParam = title ? `<ac:parameter ac:name="title">${escapeHtml(title)}</ac:parameter>` : "";
+  const body = renderMarkdownStorage(text.replace(/^\s*\n/, ""));
+  return `<ac:structured-macro ac:name="expand">${titleParam}<ac:rich-text-body>${body}</ac:rich-text-body></ac:structured-macro>`;
+}
+
+/**
+ * Table cell rows (raw cell markdown) of a parsed GFM table.
+ */
+function tableRows(node: BlockNode): string[][] {
+  const rows: string[][] = [];
+  const walk = (n: BlockNode) => {
+    if (n.token.type === "tr_open") rows.push(n.children.map((cell) => cell.children[0]?.token.content.trim() || ""));
+    else n.children.forEach(walk);
+  };
+  node.children.forEach(walk);
+  return rows;
+}
+
+/**
+ * Render a GFM table.
+ *
+ * How: `<!-- cell:merged -->` cells are dropped (their position is covered by
+ * a neighbour's colspan/rowspan); every other cell's tag becomes attributes.
+ * The attributes of a `<!-- table:… -->` line above the table set its layout,
+ * width and column widths.
+ */
+function renderTable(node: BlockNode, tableAttrs: StyleTag): string {
+  const [header = [], ...bodyRows] = tableRows(node);
+  const rowHtml = (cells: string[], headerRow: boolean) => {
+    const parts = ["<tr>"];
+    for (const c of cells) {
+      if (c === MERGED_CELL) continue;
+      const attrs: StyleTag = {};
+      const text = c.replace(CELL_TAG_RE, (_m, tag: string) => {
+        Object.assign(attrs, parseStyleTag(tag));
+        return "";
+      }).trim();
+      const name = ("header" in attrs || headerRow) && !("data" in attrs) ? "th" : "td";
+      let open = name;
+      if (Number(attrs.colspan) > 1) open += ` colspan="${Number(attrs.colspan)}"`;
+      if (Number(attrs.rowspan) > 1) open += ` rowspan="${Number(attrs.rowspan)}"`;
+      if (attrs.bg) open += ` data-highlight-colour="${escapeHtml(attrs.bg)}"`;
+      parts.push(`<${open}>${cellHtml(text)}</${name}>`);
+    }
+    parts.push("</tr>");
+    return parts.join("");
+  };
+  let open = "table";
+  if (tableAttrs.layout) open += ` data-layout="${escapeHtml(tableAttrs.layout)}"`;
+  if (tableAttrs.width) open += ` data-table-width="${escapeHtml(tableAttrs.width)}"`;
+  const parts: string[] = [`<${open}>`];
+  if (tableAttrs.cols) {
+    const cols = tableAttrs.cols.split(",").map((w) => (w ? `<col style="width: ${escapeHtml(w)}px;"/>` : "<col/>"));
+    parts.push(`<colgroup>${cols.join("")}</colgroup>`);
+  }
+  if ("noheader" in tableAttrs) {
+    parts.push("<tbody>", rowHtml(header, false));
+  } else if (header.some((c) => /<!--\s*cell:[^>]*\browspan:(?:[2-9]|\d{2,})/i.test(c))) {
+    // A rowspan cannot reach from <thead> into <tbody>: keep the header row in the body
+    parts.push("<tbody>", rowHtml(header, true));
+  } else {
+    parts.push("<thead>", rowHtml(header, true), "</thead><tbody>");
+  }
+  for (const r of bodyRows) parts.push(rowHtml(r, false));
+  parts.push("</tbody></table>");
+  return parts.join("");
+}
+
+/**
+ * Cell content in a `<p>` (Confluence expects one inside table cells); a
+ * literal `\n` (download's encoding of a line break) becomes `<br/>`.
+ */
+function cellHtml(cell: string): string {
+  const tasks = cellTasksHtml(cell);
+  if (tasks) return tasks;
+  const out = renderInlineMarkdown(cell).replace(/\\n/g, "<br/>").replace(/(?:<br\/>\s*)+$/i, "");
+  if (!out.trim()) return "";
+  return `<p>${out}</p>`;
+}
+
+/**
+ * A table cell holding a task list: `[ ] Do it <!-- task:1 --> [x] Done <!-- task:2 -->`
+ * (download puts all tasks of a cell on its single line).
+ */
+function cellTasksHtml(cell: string): string | undefined {
+  if (!/^\[[ xX]\]\s/.test(cell.trim())) return undefined;
+  const tasks: string[] = [];
+  const re = /\[([ xX])\]\s+([\s\S]*?)(?:\s*<!--\s*task:([^\s>]+)\s*-->)?\s*(?=\[[ xX]\]\s|$)/g;
+  for (const m of cell.trim().matchAll(re)) {
+    if (!m[0]) continue;
+    tasks.push(taskHtml({ done: m[1] !== " ", id: m[3] }, renderInlineMarkdown((m[2] || "").trim())));
+  }
+  return `<ac:task-list>${tasks.join("")}</ac:task-list>`;
+}
+
+function renderInlineMarkdown(text: string): string {
+  const tokens = md.parseInline(text, {});
+  return renderInline(tokens[0]?.children || []);
+}
+
+/**
+ * Render inline tokens; commented ranges are wrapped once the whole run is
+ * rendered, since their start and end tags are separate tokens.
+ */
+function renderInline(tokens: Token[]): string {
+  const out: string[] = [];
+  for (const token of tokens) {
+    switch (token.type) {
+      case "text":
+        // Emoji shortcodes; resolved (or restored) by markdownToStorageHtml
+        out.push(escapeHtml(token.content).replace(/:([a-z0-9_+-]+):/g, (_m, name: string) => `MD_EMOJI(${encodeToken(name)})`));
+        break;
+      case "code_inline":
+        out.push(`<code>${escapeHtml(token.content)}</code>`);
+        break;
+      case "softbreak":
+        out.push(" ");
+        break;
+      case "hardbreak":
+        out.push("<br/>");
+        break;
+      case "strong_open": case "em_open": case "s_open":
+        out.push(`<${token.tag}>`);
+        break;
+      case "strong_close": case "em_close": case "s_close":
+        out.push(`</${token.tag}>`);
+        break;
+      case "link_open":
+        out.push(`<a href="${escapeHtml(token.attrGet("href") || "")}">`);
+        break;
+      case "link_close":
+        out.push("</a>");
+        break;
+      case "image":
+      case "confluence_ref":
+        out.push(token.type === "image" || refMeta(token).image ? imageHtml(token, "") : refHtml(refMeta(token).label, refMeta(token).href));
+        break;
+      case "html_inline":
+        out.push(inlineTagHtml(token.content));
+        break;
+    }
+  }
+  return wrapCommentTokenRangesToInlineMarkers(out.join(""));
+}
+
+/**
+ * Links to pages, Jira issues, attachments and anchors.
+ */
+function refHtml(label: string, href: string): string {
+  const text = label.replace(/\\([!-/:-@[-`{-~])/g, "$1");
+  const linkBody = `<ac:plain-text-link-body><![CDATA[${text.split("]]>").join("]]]]><![CDATA[>")}]]></ac:plain-text-link-body>`;
+  // Page links: [text](page:PageTitle) or [text](page:SPACE:PageTitle)
+  if (href.startsWith("page:")) {
+    const pageRef = href.slice(5);
+    const sep = pageRef.indexOf(":");
+    const target = sep > 0
+      ? `<ri:page ri:space-key="${escapeHtml(pageRef.slice(0, sep))}" ri:content-title="${escapeHtml(pageRef.slice(sep + 1))}"/>`
+      : `<ri:page ri:content-title="${escapeHtml(pageRef)}"/>`;
+    return `<ac:link>${target}${linkBody}</ac:link>`;
+  }
+  // Jira issues: [ABC-1](jira:ABC-1) or [ABC-1](jira:ABC-1?showSummary=false); the macro renders the key itself
+  if (href.startsWith("jira:")) {
+    const [key = "", query = ""] = href.slice(5).replace(/&amp;/g, "&").split("?");
+    return jiraMacroHtml([["key", key], ...Array.from(new URLSearchParams(query).entries())]);
+  }
+  // Attachment links: [text](#attachment:filename.pdf)
+  if (href.startsWith("#attachment:")) {
+    return `<ac:link><ri:attachment ri:filename="${escapeHtml(href.slice(12))}"/>${linkBody}</ac:link>`;
+  }
+  return `<a href="${escapeHtml(href)}">${renderInlineMarkdown(label)}</a>`;
+}
+
+/**
+ * Inline comment tags: mentions, comment wrappers, dates, statuses and
+ * placeholders become storage nodes; task ids are read by the list item and
+ * other comments are dropped. Other inline HTML is shown as text, except
+ * line breaks.
+ */
+function inlineTagHtml(tag: string): string {
+  if (/^<br\s*\/?>$/i.test(tag)) return "<br/>";
+  if (!tag.startsWith("<!--")) return escapeHtml(tag);
+  let m: RegExpMatchArray | null;
+  if ((m = tag.match(/^<!--\s*mention:([^\s>]+)\s+([\s\S]*?)\s*-->$/))) {
+    return `<ac:link><ri:user ri:account-id="${escapeHtml(selectAccountId(m[1]!, m[2]!))}"/></ac:link>`;
+  }
+  if ((m = tag.match(/^<!--\s*comment:([^\s>]+)\s*-->$/))) return `MD_CMT_START(${encodeURIComponent(m[1]!)})`;
+  if ((m = tag.match(/^<!--\s*commend-end:([^\s>]+)\s*-->$/))) return `MD_CMT_END(${encodeURIComponent(m[1]!)})`;
+  if ((m = tag.match(/^<!--\s*date:\s*([^\s>]+)\s*-->$/i))) return `<time datetime="${escapeHtml(m[1]!)}"/>`;
+  if ((m = tag.match(/^<!--\s*status:([^:>]+):\s*((?:(?!-->)[^>])*?)\s*-->$/i))) {
+    return `<ac:structured-macro ac:name="status"><ac:parameter ac:name="title">${escapeHtml(m[2]!)}</ac:parameter>` +
+      `<ac:parameter ac:name="colour">${escapeHtml(m[1]!.trim())}</ac:parameter></ac:structured-macro>`;
+  }
+  if ((m = tag.match(/^<!--\s*placeholder:\s*((?:(?!-->)[\s\S])*?)\s*-->$/i))) return `<ac:placeholder>${escapeHtml(m[1]!)}</ac:placeholder>`;
+  return "";
+}
+
+/**
+ * Wrap MD_CMT_START(id) ... MD_CMT_END(id) spans into a single inline marker element.
+ *
+ * How: Replace balanced pairs with <ac:inline-comment-marker ac:ref="id">innerHTML</ac:inline-comment-marker>.
+ * Handles multiple pairs per string and ignores mismatched pairs.
+ */
+function wrapCommentTokenRangesToInlineMarkers(s: string): string {
+  let out = s;
+  // Replace repeatedly until no more pairs found (supports multiple ranges)
+  // Use non-greedy inner to keep shortest span for the same id
+  const pairRe = /MD_CMT_START\(([^)]+)\)([\s\S]*?)MD_CMT_END\(\1\)/g;
+  let prev: string | undefined;
+  do {
+    prev = out;
+    out = out.replace(pairRe, (_m, encId, inner) => {
+      const id = decodeURIComponent(String(encId || ""));
+      return `<ac:inline-comment-marker ac:ref="${escapeHtml(id)}">${inner}</ac:inline-comment-marker>`;
+    });
+  } while (out !== prev);
+  // Drop any stray start/end tokens that might remain (unbalanced cases)
+  return out.replace(/MD_CMT_(?:START|END)\(([^)]+)\)/g, "");
+}
+
+// Heuristic to select the correct Atlassian account ID from compound inputs like "siteId:accountId"
+function selectAccountId(id: string, label: string): string {
+  const candidates: string[] = [];
+  const add = (v?: string) => { if (v && !candidates.includes(v)) candidates.push(v); };
+  add(id);
+  add(label);
+  add(id.split(':').pop() || id);
+  add(label.split(':').pop() || label);
+  // Prefer UUID-looking tokens first
+  const uuid = candidates.find((c) => /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i.test(c));
+  if (uuid) return uuid;
+  // Otherwise pick the last segment of id as a reasonable default
+  return id.split(':').pop() || id;
+}
+
+/**
+ * Jira macro with the given parameters. Server parameters are added by
+ * withJiraServer.
+ */
+function jiraMacroHtml(params: Array<[string, string]>): string {
+  const body = params.map(([k, v]) => `<ac:parameter ac:name="${escapeHtml(k)}">${escapeHtml(v)}</ac:parameter>`).join("");
+  return `${JIRA_MACRO_OPEN}${body}</ac:structured-macro>`;
+}
+
+/**
+ * Parse `key="value"` attributes of a Jira query block (`\"` and `\\` escape
+ * quotes and backslashes inside values).
+ */
+function parseJiraAttributes(s: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const m of s.matchAll(/([A-Za-z][\w-]*)="((?:[^"\\]|\\.)*)"/g)) {
+    out[m[1]!] = m[2]!.replace(/\\(.)/g, "$1");
+  }
+  return out;
+}
+
+function parseStyleTag(text: string): StyleTag {
+  const out: StyleTag = {};
+  for (const item of text.trim().split(/\s+/).filter(Boolean)) {
+    const sep = item.indexOf(":");
+    if (sep === -1) out[item.toLowerCase()] = "";
+    else out[item.slice(0, sep).toLowerCase()] = item.slice(sep + 1);
+  }
+  return out;
+}
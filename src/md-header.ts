@@ -2,18 +2,28 @@
  * Markdown top-of-file HTML comment header parser/emitter.
  *
  * Header format:
- * <!--\nREADONLY\nspaceId: 123\npageId: 456\n-->
+ * <!--\nREADONLY\nspaceId: 123\npageId: 456\nversion: 7\nhash: 0123abcd\n-->
  *
  * Why: Keep metadata in comments (not frontmatter) and make it easy to read/write.
  * The READONLY flag marks files that should be downloaded but never uploaded.
+ * `version`/`hash` record the remote page state the file was last synced with,
+ * so upload can detect remote edits made in the meantime.
+ * A file with `parentId` or `spaceId` but no `pageId` is a new page that
+ * upload creates on first publish.
+ * `labels` lists the page labels; upload adds and removes labels to match it.
+ * An empty `labels:` line means no labels, a missing line leaves them alone.
  */
 
 export interface HeaderMeta {
   readonly?: boolean; // if true, file will be downloaded but not uploaded
   spaceId?: string;
   pageId?: string;
+  parentId?: string; // parent page for files that upload creates as new pages
   title?: string;
   status?: string; // format: color:Label text, e.g., green:In Progress
+  labels?: string[]; // page labels; undefined when the file does not manage them
+  version?: number; // remote page version at the last download/upload
+  hash?: string; // hash of the remote storage at the last download/upload
 }
 
 const HEADER_START = "<!--";
@@ -33,14 +43,22 @@ export function parseHeader(markdown: string): { meta: HeaderMeta; body: string
       meta.readonly = true;
       continue;
     }
+    if (line === "labels:") {
+      meta.labels = [];
+      continue;
+    }
     const m = line.match(/^(\w+):\s*(.+)$/);
     if (!m) continue;
     const key = m[1];
     const value = m[2];
     if (key === "spaceId") meta.spaceId = value;
     if (key === "pageId") meta.pageId = value;
+    if (key === "parentId") meta.parentId = value;
     if (key === "title") meta.title = value;
     if (key === "status") meta.status = value;
+    if (key === "labels") meta.labels = parseLabels(value ?? "");
+    if (key === "version" && /^\d+$/.test(value ?? "")) meta.version = Number(value);
+    if (key === "hash") meta.hash = value;
   }
   const body = trimmed.slice(end + HEADER_END.length).replace(/^\s*\n/, "");
   return { meta, body };
@@ -53,13 +71,25 @@ export function emitHeader(meta: HeaderMeta): string {
     ...(meta.readonly ? ["READONLY"] : []),
     `spaceId: ${meta.spaceId ?? ""}`,
     `pageId: ${meta.pageId ?? ""}`,
+    ...(meta.parentId ? [`parentId: ${meta.parentId}`] : []),
     `title: ${meta.title ?? ""}`,
     ...(meta.status ? [`status: ${meta.status}`] : []),
+    ...(meta.labels ? [`labels: ${meta.labels.join(", ")}`.trimEnd()] : []),
+    ...(meta.version !== undefined ? [`version: ${meta.version}`] : []),
+    ...(meta.hash ? [`hash: ${meta.hash}`] : []),
     "-->",
   ]; 
   return lines.join("\n") + "\n\n";
 }
 
+/**
+ * Labels of a `labels:` value; separated by commas or spaces (labels cannot
+ * contain either) and lowercased like Confluence stores them.
+ */
+export function parseLabels(value: string): string[] {
+  return [...new Set(value.split(/[\s,]+/).map((l) => l.trim().toLowerCase()).filter(Boolean))];
+}
+
 export function ensureHeader(markdown: string, meta: HeaderMeta): string {
   const { body } = parseHeader(markdown);
   return emitHeader(meta) + body.trimStart();
@@ -11,4 +11,8 @@ declare module "turndown-plugin-gfm" {
   export const gfm: any
 }
 
-
+// @types/markdown-it does not declare the individual rules
+declare module "markdown-it/lib/rules_block/html_block.mjs" {
+  import type { StateBlock } from "markdown-it"
+  export default function htmlBlock(state: StateBlock, startLine: number, endLine: number, silent: boolean): boolean
+}
@@ -0,0 +1,154 @@
+/**
+ * Semantic diff between two versions of Confluence storage HTML.
+ *
+ * Why: A raw text diff of storage XHTML is unreadable for reviewers. Before an
+ * upload goes live we want to show which blocks change, which are added or
+ * removed, and which macros (or inline comments) would disappear.
+ *
+ * How: Compare top-level nodes. Nodes carrying `data-node-id` are matched by
+ * id; all other nodes are matched by their normalized markup using a longest
+ * common subsequence so unchanged blocks keep their position. Macros are
+ * counted by name on both sides to report losses.
+ */
+
+import { parseStorageDocument } from "./storage-dom.js";
+
+export interface StorageDiff {
+  changed: string[]; // nodeIds whose content changes
+  added: string[]; // summaries of blocks that only exist in the outgoing storage
+  removed: string[]; // summaries of blocks that only exist in the current storage
+  lostMacros: { name: string; count: number }[]; // macros that occur fewer times afterwards
+}
+
+interface TopLevelNode {
+  nodeId?: string;
+  markup: string; // whitespace-normalized outerHTML used for comparison
+  summary: string; // short human readable description
+}
+
+export function diffStorage(before: string, after: string): StorageDiff {
+  const a = topLevelNodes(before);
+  const b = topLevelNodes(after);
+
+  const changed: string[] = [];
+  const added: string[] = [];
+  const removed: string[] = [];
+
+  // Pass 1: nodes with ids
+  const afterById = new Map(b.filter((n) => n.nodeId).map((n) => [n.nodeId!, n] as const));
+  const beforeIds = new Set(a.filter((n) => n.nodeId).map((n) => n.nodeId!));
+  for (const n of a) {
+    if (!n.nodeId) continue;
+    const next = afterById.get(n.nodeId);
+    if (!next) removed.push(`${n.summary} (node ${n.nodeId})`);
+    else if (next.markup !== n.markup) changed.push(n.nodeId);
+  }
+  for (const n of b) {
+    if (n.nodeId && !beforeIds.has(n.nodeId)) added.push(`${n.summary} (node ${n.nodeId})`);
+  }
+
+  // Pass 2: nodes without ids, aligned by markup
+  const plainBefore = a.filter((n) => !n.nodeId);
+  const plainAfter = b.filter((n) => !n.nodeId);
+  const { onlyA, onlyB } = alignByMarkup(plainBefore, plainAfter);
+  removed.push(...onlyA.map((n) => n.summary));
+  added.push(...onlyB.map((n) => n.summary));
+
+  // Macro losses
+  const countsBefore = countMacros(before);
+  const countsAfter = countMacros(after);
+  const lostMacros: { name: string; count: number }[] = [];
+  for (const [name, count] of countsBefore) {
+    const lost = count - (countsAfter.get(name) ?? 0);
+    if (lost > 0) lostMacros.push({ name, count: lost });
+  }
+
+  return { changed, added, removed, lostMacros };
+}
+
+/**
+ * Render a diff as human readable lines for console output.
+ */
+export function formatStorageDiff(diff: StorageDiff): string[] {
+  const lines: string[] = [];
+  if (diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0 && diff.lostMacros.length === 0) {
+    return ["no changes"];
+  }
+  if (diff.changed.length > 0) lines.push(`changed nodeIds: ${diff.changed.join(", ")}`);
+  for (const s of diff.added) lines.push(`+ ${s}`);
+  for (const s of diff.removed) lines.push(`- ${s}`);
+  for (const m of diff.lostMacros) lines.push(`! would lose ${m.count}x ${m.name}`);
+  return lines;
+}
+
+function topLevelNodes(html: string): TopLevelNode[] {
+  const document = parseStorageDocument(html || "");
+  const out: TopLevelNode[] = [];
+  for (const node of Array.from((document.body as any).childNodes || []) as any[]) {
+    if (node.nodeType === 1) {
+      const el = node as Element;
+      const tag = String(el.tagName || "").toLowerCase();
+      const text = String(el.textContent || "").replace(/\s+/g, " ").trim();
+      out.push({
+        nodeId: el.getAttribute("data-node-id") || undefined,
+        markup: normalizeMarkup(String((el as any).outerHTML || "")),
+        summary: `<${tag}> ${text ? JSON.stringify(truncate(text, 60)) : "(no text)"}`,
+      });
+    } else if (node.nodeType === 3) {
+      const text = String(node.textContent || "").replace(/\s+/g, " ").trim();
+      if (!text) continue;
+      out.push({ markup: text, summary: `text ${JSON.stringify(truncate(text, 60))}` });
+    }
+  }
+  return out;
+}
+
+/**
+ * Longest common subsequence over normalized markup; returns unmatched nodes.
+ */
+function alignByMarkup(a: TopLevelNode[], b: TopLevelNode[]): { onlyA: TopLevelNode[]; onlyB: TopLevelNode[] } {
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i]!.markup === b[j]!.markup
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+  const onlyA: TopLevelNode[] = [];
+  const onlyB: TopLevelNode[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i]!.markup === b[j]!.markup) { i++; j++; }
+    else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) onlyA.push(a[i++]!);
+    else onlyB.push(b[j++]!);
+  }
+  while (i < n) onlyA.push(a[i++]!);
+  while (j < m) onlyB.push(b[j++]!);
+  return { onlyA, onlyB };
+}
+
+/**
+ * Count macros and other Confluence constructs whose loss matters to authors.
+ */
+function countMacros(html: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (name: string) => counts.set(name, (counts.get(name) ?? 0) + 1);
+  for (const m of (html || "").matchAll(/<ac:structured-macro\b[^>]*\bac:name=["']([^"']+)["']/gi)) {
+    add(`${String(m[1]).toLowerCase()} macro`);
+  }
+  for (const _m of (html || "").matchAll(/<ac:inline-comment-marker\b/gi)) add("inline comment");
+  for (const _m of (html || "").matchAll(/<ri:user\b/gi)) add("mention");
+  return counts;
+}
+
+function normalizeMarkup(s: string): string {
+  return s.replace(/\s+/g, " ").replace(/>\s+</g, "><").trim();
+}
+
+function truncate(s: string, max: number): string {
+  return s.length > max ? s.slice(0, max - 1) + "…" : s;
+}
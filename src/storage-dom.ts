@@ -5,10 +5,12 @@
  * nodeId tags, and to replace specific nodes by nodeId for partial updates.
  */
 
-import { parseHTML } from "linkedom";
+import { createHash } from "crypto";
+import { DOMParser, parseHTML } from "linkedom";
 import TurndownService from "turndown";
 import { gfm } from "turndown-plugin-gfm";
-import { InlineTag } from "./inline-tags.js";
+import { InlineTag, emitTag } from "./inline-tags.js";
+import { renderMarkdownStorage, withJiraServer } from "./markdown-storage.js";
 
 const turndown = new TurndownService({ headingStyle: "atx", codeBlockStyle: "fenced" });
 turndown.use(gfm);
@@ -26,6 +28,34 @@ turndown.use(gfm);
   filter: "hr",
   replacement: () => "-------",
 });
+// GFM strikethrough is `~~text~~`; the gfm plugin writes a single tilde, which upload reads as text
+(turndown as any).addRule("strikethroughDouble", {
+  filter: ["del", "s", "strike"],
+  replacement: (content: string) => `~~${content}~~`,
+});
+
+/**
+ * Short content hash of storage HTML.
+ *
+ * Why: Page versions also move for changes we do not care about (e.g. a
+ * version bump without body changes); recording a hash of the storage lets
+ * upload tell real remote edits apart from those.
+ */
+export function storageHash(storageHtml: string): string {
+  return createHash("sha256").update(storageHtml || "").digest("hex").slice(0, 16);
+}
+
+/**
+ * Parse a storage HTML fragment into a document whose body holds the fragment.
+ *
+ * Why: linkedom treats a bare fragment's first element as the document element,
+ * leaving `document.body` empty (or throwing when the fragment starts with
+ * text). Wrapping in html/body keeps every top-level node under `body`.
+ */
+export function parseStorageDocument(html: string): Document {
+  const { document } = parseHTML(`<html><body>${html}</body></html>`);
+  return document as unknown as Document;
+}
 
 export interface MappedNode {
   nodeId?: string;
@@ -35,8 +65,10 @@ export interface MappedNode {
 /**
  * Detect unsupported Confluence features in storage HTML.
  * 
- * Why: Some Confluence layout and macro features cannot be properly represented
+ * Why: Some Confluence layout features cannot be properly represented
  * in markdown. We need to warn users that uploading will lose these features.
+ * Macros without a markdown form are not listed: they are kept as opaque
+ * placeholders and re-emitted unchanged.
  * 
  * How: Scan storage HTML for known unsupported patterns and return a list of
  * feature names that would be lost on upload.
@@ -48,69 +80,9 @@ export function detectUnsupportedFeatures(storageHtml: string): string[] {
   const unsupported: string[] = [];
   const html = storageHtml || "";
   
-  // Multi-column layouts (section/column macros)
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:section|column)["']/i.test(html)) {
-    unsupported.push("multi-column layout");
-  }
-  
-  // Page layouts (ac:layout elements)
-  if (/<ac:layout\b/i.test(html)) {
-    unsupported.push("page layout");
-  }
-  
-  // Expand macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["']expand["']/i.test(html)) {
-    unsupported.push("expand/collapse sections");
-  }
-  
-  // Excerpt and excerpt-include macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:excerpt|excerpt-include)["']/i.test(html)) {
-    unsupported.push("excerpt macros");
-  }
-  
-  // Jira macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["']jira["']/i.test(html)) {
-    unsupported.push("Jira issue integration");
-  }
-  
-  // Include page macro
-  if (/<ac:structured-macro\b[^>]*\bac:name=["']include["']/i.test(html)) {
-    unsupported.push("page include");
-  }
-  
-  // Children display and page tree macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:children|pagetree|pagetreesearch)["']/i.test(html)) {
-    unsupported.push("page tree/children display");
-  }
-  
-  // Roadmap and timeline macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:roadmap|timeline)["']/i.test(html)) {
-    unsupported.push("roadmap/timeline");
-  }
-  
-  // Iframe and widget macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:iframe|widget|html)["']/i.test(html)) {
-    unsupported.push("embedded iframe/widget/HTML");
-  }
-  
-  // Advanced table features (colspan/rowspan)
-  if (/<t[hd]\b[^>]*\b(?:colspan|rowspan)=["']?[2-9]/i.test(html)) {
-    unsupported.push("merged table cells");
-  }
-  
-  // Chart and diagram macros
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:chart|drawio|gliffy|lucidchart)["']/i.test(html)) {
-    unsupported.push("charts/diagrams");
-  }
-  
-  // Attachments macro (list of attachments)
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:attachments|viewfile)["']/i.test(html)) {
-    unsupported.push("attachments list");
-  }
-  
-  // Content by label macro
-  if (/<ac:structured-macro\b[^>]*\bac:name=["'](?:contentbylabel|recentlyupdated)["']/i.test(html)) {
-    unsupported.push("dynamic content display");
+  // Tables inside table cells are flattened to the cell text
+  if (/<t[hd]\b[^>]*>(?:(?!<\/t[hd]>)[\s\S])*<table\b/i.test(html)) {
+    unsupported.push("nested tables");
   }
   
   return unsupported;
@@ -128,7 +100,7 @@ export function detectUnsupportedFeatures(storageHtml: string): string[] {
  */
 export function storageToMarkdownBlocks(storageHtml: string): MappedNode[] {
   const preprocessed = normalizeMacros(storageHtml || "");
-  const { document } = parseHTML(preprocessed);
+  const document = parseStorageDocument(preprocessed);
   const root = (document.body as any) as Element;
   const blocks: MappedNode[] = [];
 
@@ -198,6 +170,26 @@ export function storageToMarkdownBlocks(storageHtml: string): MappedNode[] {
   return blocks;
 }
 
+/**
+ * Render storage HTML as the markdown body that follows the header.
+ *
+ * Why: download and sync must produce identical markdown for the same storage,
+ * otherwise git diffs and three-way merges would report phantom changes.
+ *
+ * How: Emit one block per top-level node (prefixed with its node tag when the
+ * node carries an id) and apply a final token decode pass for any durable
+ * tokens that might have survived the per-block decoding.
+ */
+export function renderMarkdownBody(storageHtml: string): string {
+  const blocks = storageToMarkdownBlocks(storageHtml);
+  const body = blocks
+    .map((b) => (b.nodeId ? emitTag({ tagType: "content", nodeId: b.nodeId }) : "") + b.markdown + "\n")
+    .join("\n")
+    .replace(/MD(?:\\)?_CMT(?:\\)?_START\(([^)]+)\)/g, (_m, enc) => `<!-- comment:${decodeURIComponent(String(enc || ''))} -->`)
+    .replace(/MD(?:\\)?_CMT(?:\\)?_END\(([^)]+)\)/g, (_m, enc) => `<!-- commend-end:${decodeURIComponent(String(enc || ''))} -->`);
+  return body.trim() + "\n";
+}
+
 /**
  * Extract header extras (emoji/status/image) from storage HTML if present.
  * Heuristics:
@@ -256,22 +248,60 @@ export function extractHeaderExtrasFromStorage(storageHtml: string, title: strin
 /**
  * Replace nodes in storage HTML by nodeId with HTML snippets.
  * If a nodeId is not found, leaves storage unchanged and returns false for that id.
+ *
+ * How: Storage is parsed as XML; an HTML parser would turn CDATA into
+ * comments, write `<br>` and let self-closing `ac:`/`ri:` elements swallow
+ * their siblings.
  */
 export function replaceNodesById(storageHtml: string, replacements: Record<string, string>): { html: string; missing: string[] } {
-  const { document } = parseHTML(storageHtml);
+  const root = parseStorageXml(storageHtml);
+  const document = root.ownerDocument;
   const missing: string[] = [];
   for (const [nodeId, html] of Object.entries(replacements)) {
-    const target = document.querySelector(`[data-node-id="${nodeId}"]`);
-    if (!target) { missing.push(nodeId); continue; }
-    const placeholder = document.createElement("div");
-    placeholder.innerHTML = html;
-    // Replace outer node with first child of placeholder or its HTML
-    const parent = target.parentNode as Node | null;
-    if (!parent) { missing.push(nodeId); continue; }
-    const replacement = (placeholder.firstChild as Node | null) ?? (placeholder as unknown as Node);
-    parent.replaceChild(replacement, target);
+    const target = root.querySelector(`[data-node-id="${nodeId}"]`);
+    const parent = target?.parentNode;
+    if (!target || !parent) { missing.push(nodeId); continue; }
+    const nodes = Array.from(parseStorageXml(html).childNodes) as Node[];
+    // Keep the node identity so the next download maps the block to the same tag
+    const first = nodes.find((n) => n.nodeType === 1) as Element | undefined;
+    if (first && !first.getAttribute("data-node-id")) first.setAttribute("data-node-id", nodeId);
+    for (const node of nodes) parent.insertBefore(document.importNode(node, true), target);
+    parent.removeChild(target);
   }
-  return { html: document.body.innerHTML, missing };
+  return { html: serializeStorageXml(root), missing };
+}
+
+/** Stands in for `&` of HTML entities, which are undefined in XML. */
+const ENTITY_SHIELD = "\uE000";
+
+/**
+ * Parse storage as XML into a `<storage>` element holding its top-level nodes.
+ * HTML entities stay shielded in the text (see ENTITY_SHIELD).
+ */
+export function parseStorageXml(html: string): Element {
+  const shielded = html.replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);)(?=[a-z][a-z0-9]*;)/gi, ENTITY_SHIELD);
+  const document = new DOMParser().parseFromString(`<storage>${shielded}</storage>`, "text/xml");
+  return document.documentElement as unknown as Element;
+}
+
+/**
+ * Top-level nodes of storage as separate XML strings (text nodes included),
+ * serialized the same way replaceNodesById writes storage.
+ */
+export function storageXmlNodes(storageHtml: string): string[] {
+  const root = parseStorageXml(storageHtml);
+  return Array.from(root.childNodes).map((node) => {
+    const holder = root.ownerDocument.createElement("storage");
+    holder.appendChild(node.cloneNode(true));
+    return serializeStorageXml(holder);
+  });
+}
+
+function serializeStorageXml(root: Element): string {
+  return root.innerHTML
+    .split(ENTITY_SHIELD).join("&")
+    // Storage writes empty elements as <br/>, the serializer as <br />
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>|<[^<>]*? \/>/g, (m) => (m.startsWith("<![CDATA[") ? m : `${m.slice(0, -3)}/>`));
 }
 
 /**
@@ -307,460 +337,354 @@ export function naiveMarkdownToStorageHtml(md: string): string {
   return chunks.join("");
 }
 
+export interface MarkdownToStorageOptions {
+  /** Original XML of preserved macros by hash (see extractOpaqueMacros) */
+  macros?: Record<string, string>;
+  /** Server reference for Jira macros created from `jira:` links and query blocks */
+  jira?: { server?: string; serverId?: string };
+  /** Emoticon XML by shortname, for `:shortname:` emoji (see extractEmoticons) */
+  emoticons?: Record<string, string>;
+}
+
 /**
- * Convert Markdown to Confluence storage HTML with basic support for:
- * - Headings (# .. ######)
- * - Paragraphs
- * - Widgets via HTML comments: <!-- widget:TOC -->
- * - GFM tables (one or more consecutive rows with pipes and a separator row)
- * Inline HTML comments inside table cells are preserved as-is.
+ * Convert Markdown to Confluence storage HTML (see markdown-storage.ts), then
+ * resolve the page-specific parts: Jira server, emoticons and preserved macros.
  */
-export function markdownToStorageHtml(md: string): string {
-  const lines = md.split(/\r?\n/);
-  const out: string[] = [];
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i];
-    if (!line || /^\s*$/.test(line)) { i++; continue; }
-
-    // Inline status tag <!-- status:color:Title -->
-    const statusTag = line.match(/^\s*<!--\s*status:([^:>]+):\s*([^>]+)\s*-->\s*$/i);
-    if (statusTag) {
-      const color = (statusTag[1] || '').trim();
-      const title = (statusTag[2] || '').trim();
-      out.push(`<ac:structured-macro ac:name="status"><ac:parameter ac:name="title">${escapeHtml(title)}</ac:parameter><ac:parameter ac:name="colour">${escapeHtml(color)}</ac:parameter></ac:structured-macro>`);
-      i++; continue;
-    }
+export function markdownToStorageHtml(md: string, opts: MarkdownToStorageOptions = {}): string {
+  // Placeholders become tokens here and are swapped for the original XML at the end
+  let html = renderMarkdownStorage(opts.macros ? md.replace(MACRO_PLACEHOLDER_RE, (_m, hash) => `MD_MACRO(${hash})`) : md);
+  // Jira macros built from markdown reference the configured server (preserved macros keep theirs)
+  if (opts.jira) html = withJiraServer(html, opts.jira);
+  html = resolveEmoticonTokens(html, opts.emoticons || {});
+  if (!opts.macros) return html;
+  const macros = opts.macros;
+  return html
+    // A paragraph holding only placeholders was a block-level macro
+    .replace(/<p>((?:\s*MD_MACRO\([0-9a-f]+\))+)\s*<\/p>/g, (_m, tokens: string) =>
+      Array.from(tokens.matchAll(/MD_MACRO\(([0-9a-f]+)\)/g), (t) => macros[t[1]!] ?? "").join(""))
+    .replace(/MD_MACRO\(([0-9a-f]+)\)/g, (_m, hash: string) => macros[hash] ?? "");
+}
 
-    // Fenced code blocks ```lang? ... ```
-    const codeFence = line.match(/^```(?<lang>[A-Za-z0-9_+\-]*)\s*$/);
-    if (codeFence) {
-      const lang = (codeFence.groups?.lang || "").trim();
-      i++;
-      const body: string[] = [];
-      while (i < lines.length && !/^```\s*$/.test(lines[i] || "")) {
-        body.push(lines[i] || "");
-        i++;
-      }
-      // Skip closing fence if present
-      if (i < lines.length && /^```\s*$/.test(lines[i] || "")) i++;
-      const codeText = body.join("\n");
-      const langParam = lang ? `<ac:parameter ac:name="language">${escapeHtml(lang)}</ac:parameter>` : '';
-      // Prefer CDATA unless it contains ']]>' which would prematurely close it; fallback to escaped text
-      const codeBody = codeText.includes("]]>")
-        ? `<ac:plain-text-body>${escapeHtml(codeText)}</ac:plain-text-body>`
-        : `<ac:plain-text-body><![CDATA[${codeText}]]></ac:plain-text-body>`;
-      out.push(
-        `<ac:structured-macro ac:name="code">${langParam}${codeBody}</ac:structured-macro>`
-      );
-      continue;
-    }
+/**
+ * Classic Confluence emoticons, available on every site by name.
+ */
+const LEGACY_EMOTICONS = new Set([
+  "smile", "sad", "cheeky", "laugh", "wink", "thumbs-up", "thumbs-down", "information", "tick", "cross",
+  "warning", "plus", "minus", "question", "light-on", "light-off", "yellow-star", "red-star", "green-star",
+  "blue-star", "heart", "broken-heart",
+]);
+const EMOTICON_RE = /<ac:emoticon\b([^>]*?)\s*(?:\/>|>\s*<\/ac:emoticon>)/gi;
 
-    // Indented code blocks (four or more leading spaces). Consume contiguous block.
-    if (/^ {4,}\S/.test(line)) {
-      const body: string[] = [];
-      while (i < lines.length && (/^ {4,}/.test(lines[i] || "") || /^\s*$/.test(lines[i] || ""))) {
-        const raw = lines[i] || "";
-        if (/^\s*$/.test(raw)) { body.push(""); i++; continue; }
-        body.push(raw.replace(/^ {4}/, ""));
-        i++;
-      }
-      const codeText = body.join("\n");
-      const codeBody = codeText.includes("]]>")
-        ? `<ac:plain-text-body>${escapeHtml(codeText)}</ac:plain-text-body>`
-        : `<ac:plain-text-body><![CDATA[${codeText}]]></ac:plain-text-body>`;
-      out.push(`<ac:structured-macro ac:name="code">${codeBody}</ac:structured-macro>`);
-      continue;
-    }
+/**
+ * Markdown name of an emoticon: its emoji shortname without colons, or the
+ * classic emoticon name.
+ */
+function emoticonName(attrs: string): string {
+  const shortname = attrs.match(/\bac:emoji-shortname=["']:?([^"':]+):?["']/i)?.[1];
+  return shortname || attrs.match(/\bac:name=["']([^"']+)["']/i)?.[1] || "";
+}
 
-    // Widgets
-    const widget = line.match(/^\s*<!--\s*widget:([A-Za-z0-9_-]+)\s*-->\s*$/i);
-    if (widget) {
-      const name = widget[1]?.toLowerCase();
-      out.push(`<ac:structured-macro ac:name="${name}"><ac:rich-text-body/></ac:structured-macro>`);
-      i++; continue;
-    }
+/**
+ * Emoticons of a page by markdown name, so `:shortname:` emoji are re-emitted
+ * with their emoji id and fallback on upload.
+ */
+export function extractEmoticons(storageHtml: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const m of (storageHtml || "").matchAll(EMOTICON_RE)) {
+    const name = emoticonName(m[1] || "");
+    if (name && out[name] === undefined) out[name] = m[0];
+  }
+  return out;
+}
 
-    // Horizontal rule: accept our canonical dashed form (seven hyphens)
-    if (/^\s*-------\s*$/.test(line)) {
-      out.push('<hr/>');
-      i++; continue;
-    }
+/**
+ * Turn `MD_EMOJI(name)` tokens into emoticons: known from the page first, then
+ * classic emoticon names. Anything else was plain text like `a:b:c`.
+ */
+function resolveEmoticonTokens(html: string, emoticons: Record<string, string>): string {
+  return html.replace(/MD_EMOJI\(([^)]*)\)/g, (_m, enc: string) => {
+    const name = decodeURIComponent(enc);
+    if (emoticons[name] !== undefined) return emoticons[name]!;
+    if (LEGACY_EMOTICONS.has(name)) return `<ac:emoticon ac:name="${name}"/>`;
+    return `:${name}:`;
+  });
+}
 
-    // Tables
-    if (looksLikeTableHeader(lines, i)) {
-      const { html, nextIndex } = consumeTable(lines, i);
-      out.push(html);
-      i = nextIndex; continue;
-    }
+/**
+ * A list item line: indentation, marker (bullet or number with . or )) and text.
+ * Accepts both hand-written (`- a`, `1. a`) and turndown (`*   a`, `1.  a`) spacing.
+ */
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
 
-    // Headings
-    const h = line.match(/^(#{1,6})\s+(.+)$/);
-    if (h) {
-      const level = h[1]?.length;
-      const text = h[2]?.trim() || "";
-      // Convert special comment wrappers and mentions to durable tokens first
-      let textWithTokens = replaceCommentWrapperCommentsWithTokens(replaceMentionCommentsWithTokens(text));
-      let html = inlineHtml(textWithTokens);
-      // After inline formatting, render durable mention tokens and wrap comment ranges
-      html = replaceMentionTokensWithMacros(html);
-      html = wrapCommentTokenRangesToInlineMarkers(html);
-      out.push(`<h${level}>${html}</h${level}>`);
-      i++; continue;
-    }
+function indentOf(line: string): number {
+  return (line.match(/^\s*/)?.[0] || "").replace(/\t/g, "    ").length;
+}
 
-    // Unordered lists (- or *). Parse minimal structure and emit <ul><li>...
-    if (/^\s*[-*]\s+/.test(line)) {
-      const items: string[] = [];
-      while (i < lines.length && /^\s*[-*]\s+/.test(lines[i] || "")) {
-        const itemText = (lines[i] || "").replace(/^\s*[-*]\s+/, "");
-        items.push(`<li>${inlineHtml(itemText)}</li>`);
-        i++;
-      }
-      out.push(`<ul>${items.join("")}</ul>`);
-      continue;
-    }
+/**
+ * Whether an ordered list item number continues a list after the given one
+ * (the next number, or the same number for lazily numbered `1.` lists).
+ */
+export function followsOn(prevMarker: string, nextMarker: string): boolean {
+  const prev = parseInt(prevMarker, 10);
+  const next = parseInt(nextMarker, 10);
+  return next === prev + 1 || next === prev;
+}
 
-    // Image with optional caption: expect either markdown image followed by caption line,
-    // or a simple figure-like syntax. We'll handle markdown image + next non-empty as caption.
-    const imgLine = line.match(/^!\[(.*?)\]\((.*?)\)\s*$/);
-    if (imgLine) {
-      const alt = imgLine[1] || "";
-      const src = imgLine[2] || "";
-      // Peek next line for caption if present and not blank
-      const next = lines[i + 1] || "";
-      const caption = /^\s*$/.test(next) ? "" : next.trim();
-      // Prefer explicit caption line, else fall back to alt text as caption
-      const captionOrAlt = caption || alt;
-      const body = src.startsWith('#')
-        ? `<ri:attachment ri:filename="${escapeHtml(src.slice(1))}"/>`
-        : `<ri:url ri:value="${escapeHtml(src)}"/>`;
-      const capHtml = captionOrAlt ? `<ac:caption>${inlineHtml(captionOrAlt)}</ac:caption>` : '';
-      /**
-       * Constrain image display to a maximum width of 500px for readability.
-       * Provide both attribute and parameter forms for broad compatibility,
-       * and center images for better visual balance.
-       */
-      const displayParam = `<ac:parameter ac:name="width">500</ac:parameter>`;
-      const alignParam = `<ac:parameter ac:name="align">center</ac:parameter>`;
-      out.push(`<ac:image ac:width="500" ac:align="center">${displayParam}${alignParam}${body}${capHtml}</ac:image>`);
-      i += caption ? 2 : 1;
-      continue;
-    }
+/**
+ * Whether `next`, found after blank lines, still belongs to the list made of
+ * `listLines`: a line indented into the list, or a sibling item of the same
+ * kind (ordered items only when their number follows on).
+ *
+ * Why: Splitting markdown into blocks at blank lines would cut loose lists
+ * apart, while a paragraph like "2024. Was good" after a list must not
+ * become one of its items.
+ */
+export function continuesList(listLines: string[], next: string): boolean {
+  const first = (listLines.find((l) => l.trim()) || "").match(LIST_ITEM_RE);
+  if (!first || !next.trim()) return false;
+  const baseIndent = indentOf(first[1] || "");
+  if (indentOf(next) > baseIndent) return true;
+  const m = next.match(LIST_ITEM_RE);
+  const ordered = /\d/.test(first[2] || "");
+  if (!m || indentOf(m[1] || "") !== baseIndent || /\d/.test(m[2] || "") !== ordered) return false;
+  if (!ordered) return true;
+  const last = listLines
+    .map((l) => l.match(LIST_ITEM_RE))
+    .filter((x): x is RegExpMatchArray => !!x && indentOf(x[1] || "") === baseIndent)
+    .pop();
+  return !!last && followsOn(last[2] || "", m[2] || "");
+}
 
-    // Info Panel blockquote: starts with > <!-- panel:color:icon -->
-    if (/^>\s*<!--\s*panel:([^:>]+):([^>]+)\s*-->/.test(line)) {
-      const m = line.match(/^>\s*<!--\s*panel:([^:>]+):([^>]+)\s*-->/i)!;
-      const color = (m[1] || '').trim().toLowerCase();
-      const icon = (m[2] || '').trim().toLowerCase();
-      const body: string[] = [];
-      // consume this line's tail and subsequent lines starting with '>'
-      const firstTail = line.replace(/^>\s*<!--[^>]+-->\s*/, '').trim();
-      if (firstTail) body.push(firstTail);
-      i++;
-      while (i < lines.length && /^>\s*/.test(lines[i] || '')) {
-        body.push((lines[i] || '').replace(/^>\s*/, ''));
-        i++;
-      }
-      // Convert body lines with inline markdown and join with <br/>
-      const inner = body
-        .map(l => {
-          const withTokens = replaceCommentWrapperCommentsWithTokens(replaceMentionCommentsWithTokens(l));
-          const htmlLine = inlineHtml(withTokens);
-          return replaceMentionTokensWithMacros(htmlLine);
-        })
-        .join('<br/>');
-      const innerWithComments = wrapCommentTokenRangesToInlineMarkers(inner);
-      if (color === 'panel') {
-        out.push(`<ac:structured-macro ac:name="panel"><ac:rich-text-body>${innerWithComments}</ac:rich-text-body></ac:structured-macro>`);
-      } else {
-        // Map common colors to known macros where applicable, else use panel with bgColor
-        const known = ['info','note','warning','tip','success','error'];
-        if (known.includes(color)) {
-          out.push(`<ac:structured-macro ac:name="${color}"><ac:rich-text-body>${innerWithComments}</ac:rich-text-body></ac:structured-macro>`);
-        } else {
-          out.push(`<ac:structured-macro ac:name="panel"><ac:parameter ac:name="bgColor">${escapeHtml(color)}</ac:parameter><ac:rich-text-body>${innerWithComments}</ac:rich-text-body></ac:structured-macro>`);
-        }
-      }
-      continue;
-    }
+/**
+ * Table and cell attributes carried by `<!-- table:… -->` / `<!-- cell:… -->`
+ * tags: space separated `key:value` items or flags, e.g.
+ * `<!-- cell:colspan:2 bg:#deebff header -->` or `<!-- table:layout:wide width:1200 cols:200,560 -->`.
+ */
+export type StyleTag = Record<string, string>;
 
-    // Generic blockquote (without panel tag)
-    if (/^>\s*/.test(line)) {
-      const body: string[] = [];
-      while (i < lines.length && /^>\s*/.test(lines[i] || '')) {
-        body.push((lines[i] || '').replace(/^>\s*/, ''));
-        i++;
-      }
-      const htmlInner = body
-        .map(l => {
-          const withTokens = replaceCommentWrapperCommentsWithTokens(replaceMentionCommentsWithTokens(l));
-          const htmlLine = inlineHtml(withTokens);
-          return replaceMentionTokensWithMacros(htmlLine);
-        })
-        .join('<br/>');
-      out.push(`<blockquote>${wrapCommentTokenRangesToInlineMarkers(htmlInner)}</blockquote>`);
-      continue;
-    }
+/** Markdown cell standing in for a grid position covered by a merged cell. */
+export const MERGED_CELL = "<!-- cell:merged -->";
 
-    // Paragraph (consume until blank line), with inline formatting including links and mentions
-    const para: string[] = [];
-    while (i < lines.length && !/^\s*$/.test(lines[i] || "")) {
-      para.push(lines[i] || "");
-      i++;
-    }
-    let paraText = para.join(' ').trim();
-    // First, convert any comment wrapper and mention tags to durable tokens so inlineHtml doesn't escape them
-    paraText = replaceCommentWrapperCommentsWithTokens(replaceMentionCommentsWithTokens(paraText));
-    let html = inlineHtml(paraText);
-    // After inline formatting, render durable tokens and wrap comment ranges
-    html = replaceMentionTokensWithMacros(html);
-    html = wrapCommentTokenRangesToInlineMarkers(html);
-    out.push(`<p>${html}</p>`);
-  }
-  return out.join("");
+function formatStyleTag(kind: "table" | "cell", attrs: StyleTag): string {
+  const items = Object.entries(attrs).map(([k, v]) => (v ? `${k}:${v}` : k));
+  return items.length ? `<!-- ${kind}:${items.join(" ")} -->` : "";
 }
 
-function looksLikeTableHeader(lines: string[], index: number): boolean {
-  if (index + 1 >= lines.length) return false;
-  const header = lines[index];
-  const sep = lines[index + 1];
-  return /\|/.test(header || "") && /^\s*\|?\s*:?\s*-{3,}/.test(sep || "");
-}
+/**
+ * Structured macros that have a markdown representation; every other macro is
+ * kept as an opaque placeholder.
+ */
+const HANDLED_MACROS = ["status", "info", "note", "warning", "tip", "success", "error", "panel", "code", "toc", "inline-comment-marker", "inline-comment-end", "expand"];
+const OPAQUE_MACRO_NAME = `(?!(?:${HANDLED_MACROS.join("|")})["'])[^"']+`;
+const MACRO_PLACEHOLDER_RE = /<!--\s*macro:[^\s#>]+#([0-9a-f]{12})\b[\s\S]*?-->/g;
 
-function consumeTable(lines: string[], start: number): { html: string; nextIndex: number } {
-  const rows: string[][] = [];
-  let i = start;
-  // header row
-  const headerCells = splitRow(lines[i++] || "");
-  // separator row
-  i++;
-  while (i < lines.length && /\|/.test(lines[i] || "") && !/^\s*$/.test(lines[i] || "")) {
-    rows.push(splitRow(lines[i] || ""));
-    i++;
-  }
-  const colCount = Math.max(headerCells.length, ...rows.map(r => r.length));
-  const normalize = (cells: string[]) => cells.concat(Array(Math.max(0, colCount - cells.length)).fill(""));
-  const header = normalize(headerCells);
-  const bodyRows = rows.map(r => normalize(r));
-  const parts: string[] = [];
-  parts.push('<table>');
-  // Optional thead
-  parts.push('<thead><tr>');
-  for (const c of header) parts.push(`<th>${cellHtml(c)}</th>`);
-  parts.push('</tr></thead>');
-  parts.push('<tbody>');
-  for (const r of bodyRows) {
-    parts.push('<tr>');
-    for (const c of r) parts.push(`<td>${cellHtml(c)}</td>`);
-    parts.push('</tr>');
-  }
-  parts.push('</tbody></table>');
-  return { html: parts.join(''), nextIndex: i };
+/**
+ * Collect the original XML of all opaque macros, keyed by their hash.
+ *
+ * Why: Macros without a markdown representation (jira, children, drawio, …)
+ * appear as `<!-- macro:name#hash key=value -->` placeholders; upload uses
+ * this map to re-emit their storage byte for byte.
+ */
+export function extractOpaqueMacros(storageHtml: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  replaceStructuredMacros(storageHtml || "", OPAQUE_MACRO_NAME, (_inner, xml) => {
+    out[macroHash(xml)] = xml;
+    return xml;
+  });
+  preserveNestedExpands(storageHtml || "", out);
+  return out;
 }
 
-function splitRow(row: string): string[] {
-  // Remove leading/trailing pipe and split
-  const trimmed = row.trim().replace(/^\|/, '').replace(/\|$/, '');
-  return trimmed.split('|').map(c => c.trim());
+/**
+ * Replace expands inside list items and table cells with opaque placeholder
+ * tokens, also in the body of top-level expands.
+ *
+ * Why: `<details>` has no place inside a list item or table row, so these
+ * expands are kept byte for byte instead. This runs on the original storage
+ * (before other macros become tokens) so the hash matches the page's XML.
+ *
+ * @param found - collects the XML of the replaced expands by hash
+ */
+function preserveNestedExpands(html: string, found: Record<string, string> = {}): string {
+  // Opaque macros are matched too, only to skip their content (they are kept whole)
+  return replaceStructuredMacros(html, `(?:expand|${OPAQUE_MACRO_NAME})`, (inner, xml, offset) => {
+    if (!/^<ac:structured-macro\b[^>]*\bac:name=["']expand["']/i.test(xml)) return xml;
+    if (insideListOrCell(html, offset)) {
+      found[macroHash(xml)] = xml;
+      return `MD_MACRO(${macroHash(xml)})[${encodeToken(macroPlaceholder("expand", inner))}]`;
+    }
+    const body = richTextBody(inner);
+    const end = xml.lastIndexOf("</ac:rich-text-body>");
+    if (!body || end === -1) return xml;
+    return xml.slice(0, end - body.length) + preserveNestedExpands(body, found) + xml.slice(end);
+  });
 }
 
-function cellHtml(cell: string): string {
-  // Preserve inline HTML comments; escape other content
-  const segments: string[] = [];
-  let last = 0;
-  const re = /<!--[\s\S]*?-->/g;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(cell)) !== null) {
-    const pre = cell.slice(last, m.index);
-    if (pre) segments.push(replaceMentionTokensWithMacros(inlineHtml(pre)).replace(/\\n/g, '<br/>'));
-    // Convert mention/comment wrapper comments within cells into durable tokens directly
-    const convertedComment = replaceCommentWrapperCommentsWithTokens(replaceMentionCommentsWithTokens(m[0]));
-    segments.push(convertedComment);
-    last = m.index + m[0]?.length;
-  }
-  const tail = cell.slice(last);
-  if (tail) segments.push(replaceMentionTokensWithMacros(inlineHtml(tail)).replace(/\\n/g, '<br/>'));
-  let out = segments.join('');
-  // Finally, render any durable mention/comment tokens into Confluence macros
-  out = replaceMentionTokensWithMacros(out);
-  out = wrapCommentTokenRangesToInlineMarkers(out);
-  // Trim trailing <br/> that may come from markdown literal \n at the end of cell
-  out = out.replace(/(?:<br\/>\s*)+$/i, '');
-  // Confluence expects inline content inside <p> within table cells for proper rendering
-  const trimmed = out.trim();
-  if (!trimmed) return '';
-  if (/^<p[>\s]/i.test(trimmed)) return trimmed;
-  return `<p>${out}</p>`;
+/**
+ * Whether the given offset lies inside an open `<li>`, `<td>` or `<th>`.
+ */
+function insideListOrCell(html: string, offset: number): boolean {
+  const before = html.slice(0, offset);
+  const opened = (before.match(/<(?:li|td|th)\b[^>]*>/gi) || []).length;
+  const closed = (before.match(/<\/(?:li|td|th)>/gi) || []).length;
+  return opened > closed;
 }
 
-function inlineHtml(s: string): string {
-  // Minimal inline markdown to HTML: code, bold, links
-  // Protect escaped asterisks so they remain literal and are not interpreted as formatting
-  // We replace them with a durable token during processing and restore at the end.
-  let out = String(s).replace(/\\\*/g, 'MD_ESC_STAR');
-  // Escape raw HTML next
-  out = escapeHtml(out);
-  // Inline images ![alt](src) → Confluence image with 500px width
-  out = out.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_m, alt, href) => {
-    const src = String(href || "");
-    const body = src.startsWith('#')
-      ? `<ri:attachment ri:filename="${escapeHtml(src.slice(1))}"/>`
-      : `<ri:url ri:value="${escapeHtml(src)}"/>`;
-    const widthParam = `<ac:parameter ac:name="width">500</ac:parameter>`;
-    const alignParam = `<ac:parameter ac:name="align">center</ac:parameter>`;
-    const capHtml = alt ? `<ac:caption>${inlineHtml(String(alt))}</ac:caption>` : '';
-    return `<ac:image ac:width="500" ac:align="center">${widthParam}${alignParam}${body}${capHtml}</ac:image>`;
-  });
-  // Code spans
-  out = out.replace(/`([^`]+)`/g, (_m, inner) => `<code>${inner}</code>`);
-  // Bold
-  out = out.replace(/\*\*([^*]+)\*\*/g, (_m, inner) => `<strong>${inner}</strong>`);
-  /**
-   * Convert markdown links to appropriate Confluence storage format.
-   * 
-   * Why: Different link types in Confluence use different storage formats.
-   * We need to detect special schemes (page:, #attachment:) and convert them
-   * to the appropriate Confluence <ac:link> format.
-   * 
-   * How: Match markdown links and check the href for special prefixes:
-   * - page:... → <ac:link><ri:page>
-   * - #attachment:... → <ac:link><ri:attachment>
-   * - regular URLs → <a href="...">
-   */
-  out = out.replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_m, text, href) => {
-    const hrefStr = String(href || "");
-    
-    // Page links: [text](page:PageTitle) or [text](page:SPACE:PageTitle)
-    if (hrefStr.startsWith('page:')) {
-      const pageRef = hrefStr.slice(5); // Remove "page:" prefix
-      const parts = pageRef.split(':');
-      if (parts.length >= 2 && parts[0]) {
-        // Format: page:SPACE:Title
-        const spaceKey = parts[0];
-        const contentTitle = parts.slice(1).join(':');
-        return `<ac:link><ri:page ri:space-key="${escapeHtml(spaceKey)}" ri:content-title="${escapeHtml(contentTitle)}"/><ac:plain-text-link-body><![CDATA[${text}]]></ac:plain-text-link-body></ac:link>`;
-      } else {
-        // Format: page:Title (no space key)
-        return `<ac:link><ri:page ri:content-title="${escapeHtml(pageRef)}"/><ac:plain-text-link-body><![CDATA[${text}]]></ac:plain-text-link-body></ac:link>`;
-      }
-    }
-    
-    // Attachment links: [text](#attachment:filename.pdf)
-    if (hrefStr.startsWith('#attachment:')) {
-      const filename = hrefStr.slice(12); // Remove "#attachment:" prefix
-      return `<ac:link><ri:attachment ri:filename="${escapeHtml(filename)}"/><ac:plain-text-link-body><![CDATA[${text}]]></ac:plain-text-link-body></ac:link>`;
-    }
-    
-    // Regular links: [text](url)
-    return `<a href="${escapeHtml(hrefStr)}">${text}</a>`;
-  });
-  // Restore literal asterisks
-  out = out.replace(/MD_ESC_STAR/g, '*');
-  return out;
+/**
+ * Hashes of all macro placeholders in a markdown text.
+ */
+export function macroPlaceholderIds(md: string): string[] {
+  return Array.from(new Set(Array.from(md.matchAll(MACRO_PLACEHOLDER_RE), (m) => m[1]!)));
 }
 
-// Phase 1: Replace mention HTML comments with durable tokens to avoid escaping during inline conversion
-function replaceMentionCommentsWithTokens(s: string): string {
-  return s.replace(/<!--\s*mention:([^\s>]+)\s+([\s\S]*?)\s*-->/g, (_m, idRaw, labelRaw) => {
-    const id = String(idRaw || "");
-    const label = String(labelRaw || "");
-    const accountId = selectAccountId(id, label);
-    const encId = encodeURIComponent(accountId);
-    // Keep optional visible label for round-trip symmetry (not required for upload)
-    return `MD_MENTION(${encId})`;
-  });
+function macroHash(xml: string): string {
+  return createHash("sha256").update(xml, "utf8").digest("hex").slice(0, 12);
 }
 
 /**
- * Replace our markdown comment wrappers with durable tokens.
- *
- * Input examples:
- *   <!-- comment:c1 -->
- *   <!-- commend-end:c1 -->
- * Output durable tokens:
- *   MD_CMT_START(encodeURIComponent(id)) / MD_CMT_END(encodeURIComponent(id))
+ * Readable summary of a macro: its name followed by `key=value` lines for its
+ * own parameters (long values are shortened; the text is display only) and a
+ * `content` line with the plain text of its body, so the text of excerpts,
+ * tabs or sections stays visible (read-only).
  */
-function replaceCommentWrapperCommentsWithTokens(s: string): string {
-  return s
-    .replace(/<!--\s*comment:([^\s>]+)\s*-->/g, (_m, id) => `MD_CMT_START(${encodeURIComponent(String(id || ''))})`)
-    .replace(/<!--\s*commend-end:([^\s>]+)\s*-->/g, (_m, id) => `MD_CMT_END(${encodeURIComponent(String(id || ''))})`);
+function macroPlaceholder(name: string, inner: string): string {
+  const params: string[] = [];
+  for (const m of ownParameters(inner).matchAll(/<ac:parameter\b[^>]*\bac:name=["']([^"']*)["'][^>]*>([\s\S]*?)<\/ac:parameter>/gi)) {
+    let value = decodeBasicEntities(String(m[2] || "").replace(/<[^>]+>/g, "")).trim().replace(/\s+/g, " ").replace(/--/g, "—");
+    if (value.length > 60) value = value.slice(0, 59) + "…";
+    if (/[\s"]/.test(value) || value === "") value = `"${value.replace(/"/g, "'")}"`;
+    params.push(`${m[1] || "default"}=${value}`);
+  }
+  const text = decodeBasicEntities(
+    richTextBody(inner)
+      .replace(/<ac:parameter\b[\s\S]*?<\/ac:parameter>/gi, "")
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+      .replace(/<[^>]+>/g, " ")
+  ).trim().replace(/\s+/g, " ").replace(/--/g, "—");
+  if (text) params.push(`content="${text.replace(/"/g, "'")}"`);
+  return [name, ...params].join("\n");
 }
 
-// Phase 2: Render durable mention tokens as Confluence user mention macros
-function replaceMentionTokensWithMacros(s: string): string {
-  // Support both bare MD_MENTION(id) and MD_MENTION(id)[label] forms
-  return s
-    .replace(/MD(?:\\)?_MENTION\(([^)]+)\)(?:\\)?\[[^\]]*\]/g, (_m, encId) => {
-      const accountId = decodeURIComponent(String(encId || ""));
-      // Confluence Cloud mention storage format
-      return `<ac:link><ri:user ri:account-id="${escapeHtml(accountId)}"/></ac:link>`;
-    })
-    .replace(/MD(?:\\)?_MENTION\(([^)]+)\)/g, (_m, encId) => {
-      const accountId = decodeURIComponent(String(encId || ""));
-      return `<ac:link><ri:user ri:account-id="${escapeHtml(accountId)}"/></ac:link>`;
-    });
+/**
+ * Encode a value for use inside durable MD_* tokens.
+ * Why: encodeURIComponent keeps `( ) * _ . ! ~ ' -`, which would end the token
+ * early or get markdown-escaped by turndown when the token sits inside text.
+ */
+export function encodeToken(s: string): string {
+  return encodeURIComponent(s).replace(/[!'()*._~-]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
 }
 
 /**
- * Replace durable inline comment tokens with Confluence inline comment macros.
- *
- * Why: We wrap commented ranges during markdown editing using HTML comments
- * like <!-- comment:ID --> ... <!-- commend-end:ID -->. On upload, we need to
- * translate those durable MD_CMT_* tokens into Confluence storage macros so the
- * commented ranges are preserved in Confluence.
+ * Replace every structured macro with the given name (a regex source),
+ * matching nested macros correctly (a non-greedy regex would stop at the first
+ * inner closing tag). `fn` receives the macro's inner storage (self-closing
+ * macros pass ""), the complete macro XML and its offset in `html`.
  */
-function replaceCommentTokensWithMacros(_s: string): string {
-  // Deprecated: we now prefer paired inline markers, keep as fallback if ever needed
-  return _s;
+function replaceStructuredMacros(html: string, name: string, fn: (inner: string, xml: string, offset: number) => string): string {
+  const startRe = new RegExp(`<ac:structured-macro\\b[^>]*\\bac:name=["']${name}["'][^>]*>`, "gi");
+  const tagRe = /<ac:structured-macro\b[^>]*?(\/)?>|<\/ac:structured-macro>/gi;
+  let out = "";
+  let pos = 0;
+  let m: RegExpExecArray | null;
+  while ((m = startRe.exec(html)) !== null) {
+    if (m[0].endsWith("/>")) {
+      out += html.slice(pos, m.index) + fn("", m[0], m.index);
+      pos = startRe.lastIndex;
+      continue;
+    }
+    tagRe.lastIndex = startRe.lastIndex;
+    let depth = 1;
+    let end = -1;
+    let t: RegExpExecArray | null;
+    while ((t = tagRe.exec(html)) !== null) {
+      if (t[0].startsWith("</")) {
+        if (--depth === 0) { end = t.index; break; }
+      } else if (!t[1]) depth++;
+    }
+    if (end === -1) break; // unbalanced markup: leave the rest untouched
+    const close = end + "</ac:structured-macro>".length;
+    out += html.slice(pos, m.index) + fn(html.slice(startRe.lastIndex, end), html.slice(m.index, close), m.index);
+    pos = close;
+    startRe.lastIndex = pos;
+  }
+  return out + html.slice(pos);
 }
 
 /**
- * Wrap MD_CMT_START(id) ... MD_CMT_END(id) spans into a single inline marker element.
- *
- * How: Replace balanced pairs with <ac:inline-comment-marker ac:ref="id">innerHTML</ac:inline-comment-marker>.
- * Handles multiple pairs per string and ignores mismatched pairs.
+ * The part of a macro's inner storage before its body, i.e. its own parameters
+ * (parameters of nested macros live inside the body).
  */
-function wrapCommentTokenRangesToInlineMarkers(s: string): string {
-  let out = s;
-  // Replace repeatedly until no more pairs found (supports multiple ranges)
-  // Use non-greedy inner to keep shortest span for the same id
-  const pairRe = /MD(?:\\)?_CMT_START\(([^)]+)\)([\s\S]*?)MD(?:\\)?_CMT_END\(\1\)/g;
-  let prev: string | undefined;
-  do {
-    prev = out;
-    out = out.replace(pairRe, (_m, encId, inner) => {
-      const id = decodeURIComponent(String(encId || ""));
-      return `<ac:inline-comment-marker ac:ref="${escapeHtml(id)}">${inner}</ac:inline-comment-marker>`;
-    });
-  } while (out !== prev);
-  // Drop any stray start/end tokens that might remain (unbalanced cases)
-  out = out.replace(/MD(?:\\)?_CMT_START\(([^)]+)\)/g, "");
-  out = out.replace(/MD(?:\\)?_CMT_END\(([^)]+)\)/g, "");
-  return out;
+function ownParameters(inner: string): string {
+  const body = inner.search(/<ac:(?:rich|plain)-text-body\b/i);
+  return body === -1 ? inner : inner.slice(0, body);
 }
 
-// Heuristic to select the correct Atlassian account ID from compound inputs like "siteId:accountId"
-function selectAccountId(id: string, label: string): string {
-  const candidates: string[] = [];
-  const add = (v?: string) => { if (v && !candidates.includes(v)) candidates.push(v); };
-  add(id);
-  add(label);
-  add(id.split(':').pop() || id);
-  add(label.split(':').pop() || label);
-  // Prefer UUID-looking tokens first
-  const uuid = candidates.find((c) => /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i.test(c));
-  if (uuid) return uuid;
-  // Otherwise pick the last segment of id as a reasonable default
-  return id.split(':').pop() || id;
+/**
+ * Content of a macro's outermost rich-text-body.
+ */
+function richTextBody(inner: string): string {
+  const open = inner.match(/<ac:rich-text-body[^>]*>/i);
+  if (!open || open.index === undefined) return "";
+  const start = open.index + open[0].length;
+  const end = inner.lastIndexOf("</ac:rich-text-body>");
+  return end >= start ? inner.slice(start, end) : inner.slice(start);
 }
 
-function escapeHtml(s: string): string {
+export function escapeHtml(s: string): string {
   return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
 
 function normalizeMacros(html: string): string {
-  let out = html;
+  let out = preserveNestedExpands(html);
+  // Jira issue and query macros → readable tokens; other Jira macros (e.g. charts) stay opaque
+  out = replaceStructuredMacros(out, "jira", (inner, xml) => {
+    const params: Array<[string, string]> = [];
+    for (const m of ownParameters(inner).matchAll(/<ac:parameter\b[^>]*\bac:name=["']([^"']*)["'][^>]*>([\s\S]*?)<\/ac:parameter>/gi)) {
+      const name = m[1] || "";
+      // The server is re-added on upload from the page or .env
+      if (!/^(?:server|serverId)$/i.test(name)) params.push([name, decodeBasicEntities(m[2] || "")]);
+    }
+    const key = params.find(([k]) => k === "key")?.[1];
+    if (key && !params.some(([k]) => k === "jqlQuery")) {
+      const rest = new URLSearchParams(params.filter(([k]) => k !== "key")).toString();
+      return `MD_JIRA(${encodeToken(key.trim())})[${encodeToken(rest)}]`;
+    }
+    if (params.some(([k]) => k === "jqlQuery")) {
+      const attrs = params.map(([k, v]) => `${k === "jqlQuery" ? "jql" : k}="${v.replace(/[\\"]/g, "\\$&")}"`);
+      return `MD_JIRAQ[${encodeToken(attrs.join(" "))}]`;
+    }
+    return xml;
+  });
+  // Macros without a markdown representation → opaque placeholders (original XML kept by hash)
+  out = replaceStructuredMacros(out, OPAQUE_MACRO_NAME, (inner, xml) => {
+    const name = xml.match(/\bac:name=["']([^"']+)["']/i)?.[1] || "macro";
+    return `MD_MACRO(${macroHash(xml)})[${encodeToken(macroPlaceholder(name, inner))}]`;
+  });
+  /**
+   * Expand macros → MD_EXPAND token with title and the raw body storage.
+   * Runs first so the body (which often holds code blocks or panels) is
+   * converted recursively on decode, with the full pipeline.
+   * Expands inside list items and table cells are placeholders already.
+   */
+  out = replaceStructuredMacros(out, "expand", (inner) => {
+    const titleParam = ownParameters(inner).match(/<ac:parameter[^>]*\bac:name=["']title["'][^>]*>([\s\S]*?)<\/ac:parameter>/i);
+    const title = decodeBasicEntities((titleParam?.[1] || "").replace(/<[^>]+>/g, "").trim());
+    return `MD_EXPAND(${encodeToken(title)})[${encodeToken(richTextBody(inner))}]`;
+  });
+  /**
+   * Page layouts → comment markers around the cell content.
+   * How: Stripping the layout wrappers lifts the cell content to the top level,
+   * so every block inside a cell stays a separate (taggable) block. Markers are
+   * separated by newlines because adjacent markers share one text node.
+   */
+  out = out
+    .replace(/<ac:layout-section\b[^>]*>/gi, (m) => {
+      const type = m.match(/\bac:type=["']([^"']+)["']/i)?.[1] || "single";
+      return `\n<!-- layout-section:${type} -->\n`;
+    })
+    .replace(/<ac:layout-cell\b[^>]*>/gi, "\n<!-- layout-cell -->\n")
+    .replace(/<\/ac:layout>/gi, "\n<!-- layout-end -->\n")
+    .replace(/<\/?ac:layout(?:-section|-cell)?\b[^>]*>/gi, "");
   // Inline Status macro → durable token with color/title
   out = out.replace(/<ac:structured-macro\b[^>]*\bac:name=["']status["'][^>]*>([\s\S]*?)<\/ac:structured-macro>/gi, (_m, inner) => {
     const titleParam = inner.match(/<ac:parameter[^>]*\bac:name=["']title["'][^>]*>([\s\S]*?)<\/ac:parameter>/i);
@@ -771,6 +695,16 @@ function normalizeMacros(html: string): string {
     const encColor = encodeURIComponent(color || '');
     return `MD_STATUS(${encColor})[${encTitle}]`;
   });
+  // Date lozenges, emoticons and editor placeholders → durable tokens
+  out = out
+    .replace(/<time\b[^>]*?\bdatetime=["']([^"']+)["'][^>]*?(?:\/>|>[\s\S]*?<\/time>)/gi, (_m, date) =>
+      `MD_DATE(${encodeToken(String(date))})`)
+    .replace(EMOTICON_RE, (_m, attrs) => {
+      const name = emoticonName(String(attrs || ""));
+      return name ? `MD_EMOJI(${encodeToken(name)})` : "";
+    })
+    .replace(/<ac:placeholder\b[^>]*>([\s\S]*?)<\/ac:placeholder>/gi, (_m, text) =>
+      `MD_PLACEHOLDER(${encodeToken(decodeBasicEntities(String(text).replace(/<[^>]+>/g, "")).trim())})`);
 
   /**
    * Convert Confluence <ac:link> elements to appropriate tokens or markdown.
@@ -851,6 +785,25 @@ function normalizeMacros(html: string): string {
     return m;
   });
 
+  /**
+   * Task lists → bullet lists whose items start with a durable MD_TASK token.
+   *
+   * Why: Checkboxes would otherwise be unwrapped into plain text. The task id
+   * is kept so upload reuses the same task instead of creating a new one.
+   *
+   * How: Runs after ac:link conversion so assignee mentions are already tokens.
+   * Tags are rewritten individually, which keeps nested task lists intact.
+   */
+  out = out
+    .replace(/<ac:task-list(?:\s[^>]*)?>/gi, "<ul>")
+    .replace(/<\/ac:task-list>/gi, "</ul>")
+    .replace(/<ac:task(?:\s[^>]*)?>([\s\S]*?)<ac:task-body(?:\s[^>]*)?>/gi, (_m, meta: string) => {
+      const id = (meta.match(/<ac:task-id[^>]*>([\s\S]*?)<\/ac:task-id>/i)?.[1] || "").trim();
+      const status = (meta.match(/<ac:task-status[^>]*>([\s\S]*?)<\/ac:task-status>/i)?.[1] || "").trim().toLowerCase();
+      return `<li>MD_TASK(${status === "complete" ? "x" : "o"},${encodeURIComponent(id)})`;
+    })
+    .replace(/<\/ac:task-body>\s*<\/ac:task>/gi, "</li>");
+
   // Info/Note/Warning/Tip/Panel macros → MD_PANEL token with color/icon and body
   out = out.replace(/<ac:structured-macro\b[^>]*\bac:name=["'](info|note|warning|tip|success|error|panel)["'][^>]*>([\s\S]*?)<\/ac:structured-macro>/gi,
     (_m, name: string, inner: string) => {
@@ -946,16 +899,54 @@ function normalizeMacros(html: string): string {
   return out;
 }
 
+/**
+ * Render a storage table as a GFM table.
+ *
+ * How: Merged cells keep the grid rectangular with `<!-- cell:merged -->`
+ * fillers for the positions they cover; spans, background colours and header
+ * cells outside the first row become a `<!-- cell:… -->` tag at the end of the
+ * cell. Table layout, width and column widths go to a `<!-- table:… -->` line
+ * above the table.
+ */
 function renderTableMarkdown(tableEl: Element): string {
-  // Build GFM table; preserve inline HTML comments inside cells
   const rows = Array.from(tableEl.querySelectorAll("tr")) as Element[];
   if (rows.length === 0) return "";
-  const matrix: string[][] = rows.map((tr) => {
+  const covered: number[] = []; // remaining rows covered by a rowspan, per column
+  const matrix: string[][] = rows.map((tr, rowIndex) => {
     const cells = Array.from(tr.querySelectorAll("th,td")) as Element[];
-    return cells.map((cell) => getCellTextWithComments(cell).trim().replace(/\s+/g, " "));
+    const row: string[] = [];
+    const fillCovered = () => {
+      while ((covered[row.length] || 0) > 0) row.push(MERGED_CELL);
+    };
+    for (const cell of cells) {
+      fillCovered();
+      const colspan = Math.max(1, Number(cell.getAttribute("colspan")) || 1);
+      const rowspan = Math.max(1, Number(cell.getAttribute("rowspan")) || 1);
+      const attrs: StyleTag = {};
+      if (colspan > 1) attrs.colspan = String(colspan);
+      if (rowspan > 1) attrs.rowspan = String(rowspan);
+      const isHeader = String((cell as any).tagName || "").toLowerCase() === "th";
+      if (isHeader && rowIndex > 0) attrs.header = "";
+      // Decode task tokens per cell so a task id tag stays inside its cell
+      let text = decodeMdCommentTokens(getCellTextWithComments(cell, attrs).trim().replace(/\s+/g, " ")).trim();
+      const tag = formatStyleTag("cell", attrs);
+      if (tag) text = text ? `${text} ${tag}` : tag;
+      const col = row.length;
+      row.push(text);
+      for (let k = 1; k < colspan; k++) row.push(MERGED_CELL);
+      for (let k = 0; k < colspan; k++) covered[col + k] = Math.max(covered[col + k] || 0, rowspan);
+    }
+    // Columns covered by rowspans after the last cell of this row
+    for (let c = row.length; c < covered.length; c++) {
+      if ((covered[c] || 0) > 0) { while (row.length < c) row.push(""); row.push(MERGED_CELL); }
+    }
+    for (let c = 0; c < covered.length; c++) if ((covered[c] || 0) > 0) covered[c]!--;
+    return row;
   });
   const colCount = Math.max(0, ...matrix.map((r) => r.length));
   const lines: string[] = [];
+  const tableTag = formatStyleTag("table", tableAttributes(tableEl, rows[0]));
+  if (tableTag) lines.push(tableTag);
   // Header row is first row
   const first = matrix[0] || [];
   const header = first.concat(Array(Math.max(0, colCount - first.length)).fill(""));
@@ -970,11 +961,33 @@ function renderTableMarkdown(tableEl: Element): string {
   return decodeMdCommentTokens(out);
 }
 
-function getCellTextWithComments(cell: Element): string {
+/**
+ * Table-level attributes: layout, width, column widths and whether the first
+ * row is a plain data row (`noheader`).
+ */
+function tableAttributes(tableEl: Element, firstRow: Element | undefined): StyleTag {
+  const attrs: StyleTag = {};
+  const layout = tableEl.getAttribute("data-layout");
+  if (layout) attrs.layout = layout;
+  const width = tableEl.getAttribute("data-table-width");
+  if (width) attrs.width = width;
+  const cols = (Array.from(tableEl.querySelectorAll("col")) as Element[]).map((col) => {
+    const style = col.getAttribute("style") || "";
+    return style.match(/width:\s*([\d.]+)px/i)?.[1] || col.getAttribute("width") || "";
+  });
+  if (cols.some(Boolean)) attrs.cols = cols.join(",");
+  const firstCells = firstRow ? (Array.from(firstRow.querySelectorAll("th,td")) as Element[]) : [];
+  if (firstCells.length && firstCells.every((c) => String((c as any).tagName || "").toLowerCase() === "td")) {
+    attrs.noheader = "";
+  }
+  return attrs;
+}
+
+function getCellTextWithComments(cell: Element, attrs: StyleTag = {}): string {
   const anyCell: any = cell as any;
   let html = String(anyCell.innerHTML || "");
-  // Extract styling color markers encoded as MD_COMMENT tokens or real comments
-  let styleColor: string | undefined;
+  // Background colour from the cell attribute, or styling color markers encoded as MD_COMMENT tokens or real comments
+  let styleColor: string | undefined = cell.getAttribute("data-highlight-colour")?.toLowerCase() || undefined;
   html = html.replace(/MD_COMMENT\(([^)]+)\)/g, (_m, enc) => {
     const comment = decodeURIComponent(String(enc));
     const m = comment.match(/^(?:table|cell):bg:([#a-z0-9_-]+)$/i);
@@ -986,10 +999,12 @@ function getCellTextWithComments(cell: Element): string {
     styleColor = String(color).toLowerCase();
     return "";
   });
-  // Convert block/line break tags to newlines, then strip remaining tags
+  // Mark line breaks and paragraph ends, then strip remaining tags
   html = html
-    .replace(/<br\s*\/?>/gi, "\n")
-    .replace(/<\/(?:p|div|li|h\d)>/gi, "\n");
+    .replace(/<br\s*\/?>/gi, "\u0000")
+    .replace(/<\/(?:p|div|h\d)>/gi, "\u0000")
+    // List items (and tasks) of a cell share its line
+    .replace(/<\/li>/gi, " ");
   // Remove remaining tags
   let text = html.replace(/<[^>]+>/g, "");
   // Decode HTML entities
@@ -999,20 +1014,26 @@ function getCellTextWithComments(cell: Element): string {
    * 
    * Why: Table cells in markdown are single-line; newlines would break the table
    * structure. We normalize multiple newlines/spaces to a single space for clean output.
+   * Line breaks and paragraphs of the cell become a literal `\n`, which upload
+   * turns back into `<br/>`.
    */
   text = text.replace(/\r?\n/g, " ");
   // Normalize spaces around, collapsing multiple spaces to one
-  text = text.replace(/[ \t]+/g, " ").trim();
-  if (styleColor) {
-    text = text.length ? `${text} <!-- cell:bg:${styleColor} -->` : `<!-- cell:bg:${styleColor} -->`;
-  }
+  text = text.replace(/[ \t]+/g, " ")
+    .replace(/[ \t]*\u0000[ \t]*/g, "\u0000")
+    .replace(/^\u0000+|\u0000+$/g, "")
+    .replace(/\u0000/g, "\\n")
+    .trim();
+  if (styleColor) attrs.bg = styleColor;
   return text;
 }
 
-function decodeBasicEntities(s: string): string {
+export function decodeBasicEntities(s: string): string {
   return s
     .replace(/&lt;/g, "<")
     .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
     .replace(/&amp;/g, "&")
     .replace(/&nbsp;/g, " ");
 }
@@ -1021,9 +1042,16 @@ function decodeMdCommentTokens(s: string): string {
   let out = s
     .replace(/MD(?:\\)?_COMMENT\(([^)]+)\)/g, (_m, enc) => `<!-- ${decodeURIComponent(String(enc))} -->`)
     .replace(/MD(?:\\)?_WIDGET\(([^)]+)\)/g, (_m, name) => `<!-- widget:${String(name).toUpperCase()} -->`)
+    // Task list items: checkbox first, task id tag at the end of the item text. The text
+    // ends at the line end or the next task (tasks in a table cell share one line)
+    .replace(/MD(?:\\)?_TASK\(([xo]),([^)]*)\)((?:(?!MD(?:\\)?_TASK\()[^\n])*)/g, (_m, status, idEnc, rest) => {
+      const id = decodeURIComponent(String(idEnc || ""));
+      const text = String(rest || "").trim();
+      return [status === "x" ? "[x]" : "[ ]", text, id ? `<!-- task:${id} -->` : ""].filter(Boolean).join(" ");
+    })
     // Inline comment start/end markers to markdown wrapper comments
-    .replace(/MD(?:\\)?_CMT_START\(([^)]+)\)/g, (_m, enc) => `<!-- comment:${decodeURIComponent(String(enc || ''))} -->`)
-    .replace(/MD(?:\\)?_CMT_END\(([^)]+)\)/g, (_m, enc) => `<!-- commend-end:${decodeURIComponent(String(enc || ''))} -->`)
+    .replace(/MD(?:\\)?_CMT(?:\\)?_START\(([^)]+)\)/g, (_m, enc) => `<!-- comment:${decodeURIComponent(String(enc || ''))} -->`)
+    .replace(/MD(?:\\)?_CMT(?:\\)?_END\(([^)]+)\)/g, (_m, enc) => `<!-- commend-end:${decodeURIComponent(String(enc || ''))} -->`)
     /**
      * Convert page link tokens to markdown links.
      * 
@@ -1068,6 +1096,30 @@ function decodeMdCommentTokens(s: string): string {
       for (const l of lines) outLines.push(l.trim().length ? `> ${l}` : ">");
       return outLines.join("\n");
     })
+    .replace(/MD(?:\\)?_JIRA\(([^)]*)\)(?:\\)?\[([^\]\\]*)(?:\\)?\]/g, (_m, keyEnc, restEnc) => {
+      const key = decodeURIComponent(String(keyEnc || ""));
+      const rest = decodeURIComponent(String(restEnc || ""));
+      return `[${key}](jira:${key}${rest ? `?${rest}` : ""})`;
+    })
+    // Jira query tables as a block placeholder
+    .replace(/MD(?:\\)?_JIRAQ(?:\\)?\[([^\]\\]*)(?:\\)?\]/g, (_m, attrsEnc) =>
+      `\n\n<!-- jira:query ${decodeURIComponent(String(attrsEnc || ""))} -->\n\n`)
+    .replace(/MD(?:\\)?_MACRO\(([0-9a-f]+)\)(?:\\)?\[([^\]\\]*)(?:\\)?\]/g, (_m, hash, textEnc) => {
+      const [name, ...params] = decodeURIComponent(String(textEnc || "")).split("\n");
+      return `<!-- macro:${name}#${hash}${params.map((p) => ` ${p}`).join("")} -->`;
+    })
+    // Expand macros as <details>; the body is converted with the full block pipeline
+    .replace(/MD(?:\\)?_EXPAND\(([^)]*)\)(?:\\)?\[([^\]]*)(?:\\)?\]/g, (_m, titleEnc, bodyEnc) => {
+      const title = decodeURIComponent(String(titleEnc || ""));
+      const bodyHtml = decodeURIComponent(String(bodyEnc || ""));
+      const body = storageToMarkdownBlocks(bodyHtml).map((b) => b.markdown).join("\n\n");
+      // Blank lines around the block: neighbouring tokens may share the same text node
+      return ["", "", "<details>", `<summary>${escapeHtml(title)}</summary>`, "", ...(body ? [body, ""] : []), "</details>", "", ""].join("\n");
+    })
+    .replace(/MD(?:\\)?_DATE\(([^)]*)\)/g, (_m, enc) => `<!-- date:${decodeURIComponent(String(enc || ""))} -->`)
+    .replace(/MD(?:\\)?_EMOJI\(([^)]*)\)/g, (_m, enc) => `:${decodeURIComponent(String(enc || ""))}:`)
+    .replace(/MD(?:\\)?_PLACEHOLDER\(([^)]*)\)/g, (_m, enc) =>
+      `<!-- placeholder:${decodeURIComponent(String(enc || "")).replace(/--/g, "—")} -->`)
     .replace(/MD(?:\\)?_STATUS\(([^)]*)\)(?:\\)?\[([\s\S]*?)(?:\\)?\]/g, (_m, colorEnc, titleEnc) => {
       const color = decodeURIComponent(String(colorEnc || "")) || "grey";
       const title = decodeURIComponent(String(titleEnc || "")) || "Status";
@@ -1099,7 +1151,8 @@ function decodeMdCommentTokens(s: string): string {
   out = out
     .replace(/(\S)<!--\s*comment:/g, '$1 <!-- comment:')
     .replace(/(\S)<!--\s*commend-end:/g, '$1 <!-- commend-end:')
-    .replace(/-->\s*(\S)/g, '--> $1');
+    // Only collapse spaces; a newline after a trailing tag (e.g. task ids) ends the line
+    .replace(/-->[ \t]*(\S)/g, '--> $1');
   return out;
 }
 
@@ -1108,22 +1161,22 @@ function decodeMdCommentTokens(s: string): string {
  * We keep any escapes inside fenced/indented code or inline code (`...`).
  */
 function unescapeMarkdownUnderscores(md: string): string {
-  // Step 1: remove single escaped underscores
-  let out = md.replace(/\\_/g, "_");
+  // Step 1: remove escapes of underscores inside words (CONST_VAR); at word edges
+  // they are kept, otherwise upload would read `_word_` as italics
+  let out = md.replace(/(?<=[A-Za-z0-9])\\_(?=[A-Za-z0-9])/g, "_");
   // Step 2: collapse any remaining multiple backslashes before '_' to a single backslash
   // This ensures sequences like \\_ become \_
   out = out.replace(/\\{2,}_/g, "\\_");
   // Step 3: for asterisks, collapse multiple backslashes before '*' to a single backslash (avoid multiplying on round-trips)
   out = out.replace(/\\{2,}\*/g, "\\*");
   /**
-   * Step 4: unescape numbered enumerations with periods.
+   * Step 4: unescape numbered enumerations with periods after header markers.
    * 
-   * Why: Turndown may escape dots after numbers (e.g., `1\.`) to prevent
-   * unintended list interpretation. We unescape these in two contexts:
-   * - At start of line for numbered lists: `1\. Item` → `1. Item`
-   * - After header markers: `# 1\. Header` → `# 1. Header`
+   * Why: Turndown escapes dots after numbers (e.g., `1\.`) to prevent
+   * unintended list interpretation. In headings (`# 1\. Header`) the escape is
+   * noise. At the start of a line it is kept: upload would otherwise read a
+   * paragraph like "2024. Was good" as an ordered list item.
    */
-  out = out.replace(/^(\s*\d+)\\\./gm, '$1.');
   out = out.replace(/^(#{1,6}\s+\d+)\\\./gm, '$1.');
   // Step 5: inside code regions (inline `code` and fenced ``` blocks), remove escapes before '*'
   out = unescapeAsterisksInsideCode(out);
@@ -0,0 +1,180 @@
+/**
+ * Structural comparison of storage before and after a round trip.
+ *
+ * Why: An upload of an unchanged markdown file should give Confluence back the
+ * page it came from. `detectUnsupportedFeatures` only scans for known patterns;
+ * before agents edit a page we want to know every node, macro and attribute
+ * that the markdown conversion would change or drop.
+ *
+ * How: Both sides are parsed as XML. Children are aligned by element name (and
+ * macro name) with a longest common subsequence; unmatched nodes are reported
+ * as lost or added, matched elements are compared attribute by attribute and
+ * recursively. Text is compared with collapsed whitespace, CDATA counts as
+ * text and comments are ignored.
+ */
+
+import { parseStorageXml } from "./storage-dom.js";
+
+export interface FidelityIssue {
+  path: string; // XPath-like location in the original storage, e.g. /table[1]/tbody[1]/tr[2]
+  message: string;
+}
+
+type TreeNode = Element | Text;
+
+export function compareStorage(before: string, after: string): FidelityIssue[] {
+  const issues: FidelityIssue[] = [];
+  compareChildren(parseStorageXml(before || ""), parseStorageXml(after || ""), "", issues);
+  return issues;
+}
+
+/**
+ * Render issues as human readable lines for console output.
+ */
+export function formatFidelityIssues(issues: FidelityIssue[]): string[] {
+  if (issues.length === 0) return ["round trip is lossless"];
+  return issues.map((i) => `${i.path || "/"}: ${i.message}`);
+}
+
+function compareChildren(a: Element, b: Element, path: string, issues: FidelityIssue[]): void {
+  const before = significantChildren(a);
+  const after = significantChildren(b);
+  const paths = childPaths(before, path);
+  const pairs = align(before.map(signature), after.map(signature));
+  for (const [p, [i, k]] of pairs.entries()) {
+    if (i === undefined) issues.push(addedAt(after[k!]!, pairs.slice(p + 1), pairs.slice(0, p), paths));
+    else if (k === undefined) issues.push({ path: paths[i]!, message: `lost ${describe(before[i]!)}` });
+    else compareNodes(before[i]!, after[k]!, paths[i]!, issues);
+  }
+}
+
+/**
+ * Locate an added node at the original sibling it was inserted before (or,
+ * at the end, after); without siblings at the parent.
+ */
+function addedAt(
+  node: TreeNode,
+  following: [number | undefined, number | undefined][],
+  preceding: [number | undefined, number | undefined][],
+  paths: string[]
+): FidelityIssue {
+  const next = following.find(([i]) => i !== undefined)?.[0];
+  if (next !== undefined) return { path: paths[next]!, message: `added ${describe(node)} before it` };
+  const previous = preceding.reverse().find(([i]) => i !== undefined)?.[0];
+  if (previous !== undefined) return { path: paths[previous]!, message: `added ${describe(node)} after it` };
+  return { path: paths[paths.length - 1]!, message: `added ${describe(node)}` };
+}
+
+function compareNodes(a: TreeNode, b: TreeNode, path: string, issues: FidelityIssue[]): void {
+  if (a.nodeType !== 1) {
+    const before = text(a);
+    const after = text(b);
+    if (before !== after) issues.push({ path, message: `text ${quote(before)} becomes ${quote(after)}` });
+    return;
+  }
+  const x = a as Element;
+  const y = b as Element;
+  for (const { name, value } of Array.from(x.attributes)) {
+    const next = y.getAttribute(name);
+    if (next === null) issues.push({ path, message: `lost attribute ${name}="${show(value)}"` });
+    else if (next !== value) issues.push({ path, message: `attribute ${name}="${show(value)}" becomes "${show(next)}"` });
+  }
+  for (const { name, value } of Array.from(y.attributes)) {
+    if (!x.hasAttribute(name)) issues.push({ path, message: `added attribute ${name}="${show(value)}"` });
+  }
+  compareChildren(x, y, path, issues);
+}
+
+/**
+ * Child elements and text; whitespace-only text and comments do not survive
+ * any conversion and carry no content. Adjacent text and CDATA are merged.
+ */
+function significantChildren(el: Element): TreeNode[] {
+  const out: TreeNode[] = [];
+  let pendingText: Text | undefined;
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === 1) {
+      out.push(node as Element);
+      pendingText = undefined;
+    } else if (node.nodeType === 3 || node.nodeType === 4) {
+      if (!text(node).trim()) continue;
+      if (pendingText) pendingText.data += (node as Text).data;
+      else {
+        pendingText = el.ownerDocument.createTextNode((node as Text).data);
+        out.push(pendingText);
+      }
+    }
+  }
+  return out;
+}
+
+/** What two nodes must share to be compared with each other. */
+function signature(node: TreeNode): string {
+  if (node.nodeType !== 1) return "#text";
+  const el = node as Element;
+  const macro = el.getAttribute("ac:name");
+  return macro === null ? el.tagName : `${el.tagName}:${macro}`;
+}
+
+/**
+ * Paths of the nodes, numbered among their siblings of the same name; the
+ * extra last entry is the parent, for nodes added to an empty one.
+ */
+function childPaths(nodes: TreeNode[], parent: string): string[] {
+  const seen = new Map<string, number>();
+  const paths = nodes.map((n) => {
+    const name = n.nodeType === 1 ? (n as Element).tagName : "text()";
+    const index = (seen.get(name) ?? 0) + 1;
+    seen.set(name, index);
+    return `${parent}/${name}[${index}]`;
+  });
+  return [...paths, parent];
+}
+
+/**
+ * Longest common subsequence over signatures, as pairs of indexes; a missing
+ * index marks a node that only exists on the other side.
+ */
+export function align(a: string[], b: string[]): [number | undefined, number | undefined][] {
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+  const pairs: [number | undefined, number | undefined][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) pairs.push([i++, j++]);
+    else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) pairs.push([i++, undefined]);
+    else pairs.push([undefined, j++]);
+  }
+  while (i < n) pairs.push([i++, undefined]);
+  while (j < m) pairs.push([undefined, j++]);
+  return pairs;
+}
+
+function describe(node: TreeNode): string {
+  if (node.nodeType !== 1) return `text ${quote(text(node))}`;
+  const el = node as Element;
+  const macro = el.getAttribute("ac:name");
+  const name = el.tagName === "ac:structured-macro" && macro !== null ? `"${macro}" macro` : `<${el.tagName}>`;
+  const content = text(el);
+  return content ? `${name} ${quote(content)}` : name;
+}
+
+function text(node: Node): string {
+  return show(node.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/** Undo the entity shield of parseStorageXml for display. */
+function show(s: string): string {
+  return s.split("\uE000").join("&");
+}
+
+function quote(s: string): string {
+  return JSON.stringify(s.length > 60 ? s.slice(0, 59) + "…" : s);
+}
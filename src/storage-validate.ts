@@ -0,0 +1,209 @@
+/**
+ * Storage XHTML validation before upload.
+ *
+ * Why: Confluence answers malformed storage with a bare 400 body, or accepts
+ * it and renders a broken page. Checking the outgoing storage first turns
+ * both into messages that point at the markdown line to fix.
+ *
+ * How: A small XML scanner checks well-formedness (balanced tags, quoted
+ * attributes, escaped `<` and `&`, terminated comments and CDATA), where the
+ * known `ac:`/`ri:` elements may appear, the parameters some macros cannot do
+ * without and that CDATA is only used in plain-text bodies. Problems are mapped
+ * to markdown lines by converting and checking the body block by block.
+ */
+
+import { parseBlocks } from "./inline-tags.js";
+
+export interface StorageIssue {
+  message: string;
+  line?: number; // 1-based markdown line of the block the problem came from
+}
+
+/** Allowed parents of `ac:` elements with a fixed place; "" is the top level. */
+const ALLOWED_PARENTS: Record<string, string[]> = {
+  "ac:parameter": ["ac:structured-macro", "ac:image"],
+  "ac:rich-text-body": ["ac:structured-macro"],
+  "ac:plain-text-body": ["ac:structured-macro"],
+  "ac:plain-text-link-body": ["ac:link"],
+  "ac:link-body": ["ac:link"],
+  "ac:task": ["ac:task-list"],
+  "ac:task-id": ["ac:task"],
+  "ac:task-status": ["ac:task"],
+  "ac:task-body": ["ac:task"],
+  "ac:layout": ["", "ac:rich-text-body"],
+  "ac:layout-section": ["ac:layout"],
+  "ac:layout-cell": ["ac:layout-section"],
+  "ac:caption": ["ac:image"],
+};
+
+/** Parameters a macro cannot do without; one of each group is required. */
+const REQUIRED_PARAMETERS: Record<string, string[][]> = {
+  jira: [["key", "jqlQuery"]],
+};
+
+/** Elements that must have one of these children. */
+const REQUIRED_CHILDREN: Record<string, string[]> = {
+  code: ["ac:plain-text-body"],
+  "ac:task": ["ac:task-status"],
+};
+
+const CDATA_PARENTS = ["ac:plain-text-body", "ac:plain-text-link-body"];
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "col", "input", "wbr"]);
+const NAME = "[A-Za-z_][\\w:.-]*";
+const OPEN_TAG_RE = new RegExp(`^<(${NAME})((?:\\s+${NAME}\\s*=\\s*(?:"[^"<]*"|'[^'<]*'))*)\\s*(/?)>`);
+const CLOSE_TAG_RE = new RegExp(`^</(${NAME})\\s*>`);
+const ATTRIBUTE_RE = new RegExp(`(${NAME})\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "g");
+const ENTITY_RE = /^&(?:[A-Za-z][A-Za-z0-9]*|#\d+|#x[0-9A-Fa-f]+);/;
+
+interface Frame {
+  name: string;
+  macro?: string; // ac:name of a structured macro
+  parameters: Set<string>;
+  children: Set<string>;
+}
+
+/**
+ * Check storage XHTML and return the problems found (empty when valid).
+ */
+export function validateStorage(html: string): string[] {
+  const issues = new Set<string>();
+  const stack: Frame[] = [];
+  const parentName = () => stack[stack.length - 1]?.name ?? "";
+  const checkText = (text: string) => {
+    if (text.includes("]]>")) issues.add("`]]>` outside CDATA (end of a CDATA section without a start)");
+    for (const m of text.matchAll(/&/g)) {
+      if (!ENTITY_RE.test(text.slice(m.index))) {
+        issues.add(`Unescaped "&" near "${snippet(text, m.index!)}"`);
+        break;
+      }
+    }
+  };
+  const close = (frame: Frame) => {
+    for (const group of (frame.macro && REQUIRED_PARAMETERS[frame.macro]) || []) {
+      if (!group.some((p) => frame.parameters.has(p))) {
+        issues.add(`Macro "${frame.macro}" needs the parameter ${group.map((p) => `"${p}"`).join(" or ")}`);
+      }
+    }
+    const required = REQUIRED_CHILDREN[frame.macro ?? frame.name];
+    if (required && !required.some((c) => frame.children.has(c))) {
+      issues.add(`${frame.macro ? `Macro "${frame.macro}"` : `<${frame.name}>`} needs a <${required.join("> or <")}> element`);
+    }
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf("<", pos);
+    checkText(html.slice(pos, lt === -1 ? html.length : lt));
+    if (lt === -1) break;
+    const rest = html.slice(lt);
+
+    if (rest.startsWith("<!--")) {
+      const end = html.indexOf("-->", lt + 4);
+      if (end === -1) { issues.add("Unterminated comment <!--"); break; }
+      pos = end + 3;
+      continue;
+    }
+    if (rest.startsWith("<![CDATA[")) {
+      const end = html.indexOf("]]>", lt + 9);
+      if (end === -1) { issues.add("Unterminated CDATA section"); break; }
+      if (!CDATA_PARENTS.includes(parentName())) {
+        issues.add(`CDATA inside <${parentName() || "top level"}>; only <${CDATA_PARENTS.join("> and <")}> may hold CDATA`);
+      }
+      pos = end + 3;
+      continue;
+    }
+    const closeTag = rest.match(CLOSE_TAG_RE);
+    if (closeTag) {
+      const name = closeTag[1]!;
+      const index = stack.map((f) => f.name).lastIndexOf(name);
+      if (index === -1) {
+        issues.add(`Closing tag </${name}> without an opening tag`);
+      } else {
+        if (index !== stack.length - 1) issues.add(`<${stack[stack.length - 1]!.name}> is not closed before </${name}>`);
+        for (const frame of stack.splice(index).reverse()) close(frame);
+      }
+      pos = lt + closeTag[0].length;
+      continue;
+    }
+    const openTag = rest.match(OPEN_TAG_RE);
+    if (!openTag) {
+      issues.add(/^<[A-Za-z_]/.test(rest) ? `Malformed tag "${snippet(html, lt)}"` : `Unescaped "<" near "${snippet(html, lt)}"`);
+      pos = lt + 1;
+      continue;
+    }
+    const name = openTag[1]!;
+    const attrs: Record<string, string> = {};
+    for (const a of (openTag[2] || "").matchAll(ATTRIBUTE_RE)) {
+      if (a[1]! in attrs) issues.add(`Duplicate attribute ${a[1]} on <${name}>`);
+      attrs[a[1]!] = a[2] ?? a[3] ?? "";
+      checkText(attrs[a[1]!]!);
+    }
+    const parent = stack[stack.length - 1];
+    checkPlacement(name, parent?.name ?? "", issues);
+    if (parent) {
+      parent.children.add(name);
+      if (name === "ac:parameter" && parent.macro !== undefined) parent.parameters.add(attrs["ac:name"] ?? "");
+    }
+    const frame: Frame = { name, parameters: new Set(), children: new Set() };
+    if (name === "ac:structured-macro") {
+      frame.macro = attrs["ac:name"] ?? "";
+      if (!frame.macro) issues.add("<ac:structured-macro> without an ac:name");
+    }
+    pos = lt + openTag[0].length;
+    if (openTag[3]) { close(frame); continue; }
+    if (VOID_ELEMENTS.has(name.toLowerCase())) {
+      issues.add(`<${name}> must be self-closing (<${name}/>)`);
+      continue;
+    }
+    stack.push(frame);
+  }
+  for (const frame of stack.reverse()) {
+    issues.add(`<${frame.name}> is not closed`);
+    close(frame);
+  }
+  return [...issues];
+}
+
+function checkPlacement(name: string, parent: string, issues: Set<string>): void {
+  const allowed = ALLOWED_PARENTS[name];
+  // Parents of preserved ADF content are not ours to judge
+  if (allowed && !allowed.includes(parent) && !parent.startsWith("ac:adf-")) {
+    issues.add(`<${name}> must be inside ${allowed.map((p) => (p ? `<${p}>` : "the top level")).join(" or ")}, not ${parent ? `<${parent}>` : "the top level"}`);
+  }
+  if (name.startsWith("ri:") && !/^(?:ac|ri):/.test(parent)) {
+    issues.add(`<${name}> must be inside a link, image or macro parameter, not ${parent ? `<${parent}>` : "the top level"}`);
+  }
+}
+
+function snippet(s: string, at: number): string {
+  return s.slice(at, at + 24).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Validate the storage converted from a markdown body; problems are reported
+ * with the line of the block they came from.
+ *
+ * How: When the whole storage has problems, every block is converted and
+ * checked on its own. Only problems of the whole storage are reported, so a
+ * block that is fine in context (a layout cell marker) is not blamed; problems
+ * no single block shows are reported without a line.
+ */
+export function locateStorageIssues(html: string, body: string, convert: (markdown: string) => string): StorageIssue[] {
+  const all = validateStorage(html);
+  if (all.length === 0) return [];
+  const located: StorageIssue[] = [];
+  const found = new Set<string>();
+  let cursor = 0;
+  for (const block of parseBlocks(body)) {
+    const at = body.indexOf(block.text, cursor);
+    if (at === -1) continue;
+    cursor = at + block.text.length;
+    const line = body.slice(0, at).split("\n").length;
+    for (const message of validateStorage(convert(block.text))) {
+      if (!all.includes(message)) continue;
+      located.push({ message, line });
+      found.add(message);
+    }
+  }
+  return [...located, ...all.filter((m) => !found.has(m)).map((message) => ({ message }))];
+}